@@ -0,0 +1,6 @@
+import { TuoLifeUiServer } from '../dist/uiserver.js';
+
+// The Homebridge UI starts this script for the custom settings page, the requests are handled by the compiled plugin
+(() => {
+  return new TuoLifeUiServer();
+})();
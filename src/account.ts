@@ -0,0 +1,225 @@
+import path from 'node:path';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import { TuoLifeNetworkError, TuoLifeServerError } from './errors.js';
+import { TuoLifeOfflineQueue } from './offlinequeue.js';
+import { TuoLifeApiClient } from './tuolifeapi.js';
+import { TuoLifeApiKey, TuoLifeSession } from './tuolifesession.js';
+import {
+  DISCOVERY_RETRY_DELAY,
+  MAX_DISCOVERY_RETRY_DELAY,
+  MAX_OFFLINE_REPLAY_DELAY,
+  OFFLINE_QUEUE_FILE_NAME,
+  OFFLINE_REPLAY_DELAY,
+  TOKEN_FILE_NAME,
+} from './settings.js';
+import { TuoLifeGroupUpdate, TuolifeRoom } from './types.js';
+
+export type TuoLifeAccountOptions = {
+  // namespace of the accessory UUIDs and files, empty for the account set at the top level of the config
+  id: string;
+  label?: string;
+  username?: string;
+  password?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // timeout of a single request in milliseconds
+  timeout?: number;
+  retries?: number;
+  // milliseconds between two syncs
+  syncInterval: number;
+  // successful server responses an accessory may be missing from before it is removed
+  removeMissingAfter: number;
+  // hours an accessory may be missing before it is removed, 0 to only count responses
+  removeMissingAfterHours: number;
+  // milliseconds a failed update is kept for a replay, 0 to roll it back right away
+  offlineQueueMaxAge: number;
+};
+
+// Network errors and server errors mean the cloud is down, anything else is a problem with the request
+export function isCloudFailure(error: unknown): boolean {
+  return error instanceof TuoLifeNetworkError || (error instanceof TuoLifeServerError && error.status >= 500);
+}
+
+/**
+ * TuoLife Account
+ * One TuoLife login with its own API client, sync loop and offline queue.
+ * Its rooms and bulbs are reconciled by the platform, a failing account leaves the accessories of the others alone.
+ */
+export class TuoLifeAccount {
+  public readonly id: string;
+  public readonly label?: string;
+  public readonly apiClient: TuoLifeApiClient;
+  public readonly removeMissingAfter: number;
+  public readonly removeMissingAfterHours: number;
+  // updates that could not be sent while the cloud was unreachable, undefined when turned off in config
+  public readonly offlineQueue?: TuoLifeOfflineQueue;
+  // false after a request failed because the TuoLife cloud could not be reached
+  private reachable = true;
+  private isDiscoveryInProgress = false;
+  // seconds until the next attempt after a failed discovery
+  private discoveryRetryDelay = DISCOVERY_RETRY_DELAY;
+  private discoveryRetryTimeout?: NodeJS.Timeout;
+  private syncTimer?: NodeJS.Timeout;
+  private readonly syncInterval: number;
+
+  constructor(
+    private readonly platform: TuoLifeHomebridgePlatform,
+    options: TuoLifeAccountOptions,
+  ) {
+    this.id = options.id;
+    this.label = options.label;
+    this.syncInterval = options.syncInterval;
+    this.removeMissingAfter = options.removeMissingAfter;
+    this.removeMissingAfterHours = options.removeMissingAfterHours;
+
+    this.apiClient = new TuoLifeApiClient({
+      baseUrl: options.baseUrl,
+      timeout: options.timeout,
+      retries: options.retries,
+      log: this.platform.log,
+    });
+
+    // Log in with the account credentials, a pasted API key is still accepted for older configs
+    if (options.username && options.password) {
+      const tokenFile = path.join(this.platform.api.user.storagePath(), this.fileName(TOKEN_FILE_NAME));
+      this.apiClient.credentials = new TuoLifeSession(this.apiClient, options.username, options.password, tokenFile, this.platform.log);
+    } else if (options.apiKey) {
+      this.platform.log.warn(`Using the API key from config${this.describe()}, it can not be renewed. Set username and password instead.`);
+      this.apiClient.credentials = new TuoLifeApiKey(options.apiKey);
+    } else {
+      this.platform.log.error(`No TuoLife username and password provided in config${this.describe()}. Plugin may not function correctly.`);
+    }
+
+    if (options.offlineQueueMaxAge > 0) {
+      this.offlineQueue = new TuoLifeOfflineQueue(path.join(this.platform.api.user.storagePath(), this.fileName(OFFLINE_QUEUE_FILE_NAME)), {
+        // replays are rate limited like every other command
+        send: (update, current) => this.platform.replayUpdate(update, current),
+        confirm: update => this.platform.confirmGroupState(update),
+        abandon: (groupId, reason) => this.platform.abandonPendingUpdate(groupId, reason),
+        isRetryable: isCloudFailure,
+        maxAge: options.offlineQueueMaxAge,
+        retryDelay: OFFLINE_REPLAY_DELAY * 1000,
+        maxRetryDelay: MAX_OFFLINE_REPLAY_DELAY * 1000,
+        log: this.platform.log,
+      });
+    }
+  }
+
+  // For log messages, empty for the account at the top level of the config
+  describe(): string {
+    return this.label ? ` for account ${this.label}` : '';
+  }
+
+  // Accessory UUID of a bulb or room, namespaced unless this is the account at the top level of the config
+  uuid(name: string): string {
+    return this.platform.api.hap.uuid.generate(this.id ? `${this.id}:${name}` : name);
+  }
+
+  // Load the pending updates, discover the rooms and bulbs and keep them in sync
+  async start() {
+    await this.offlineQueue?.load();
+    this.discover();
+    this.syncTimer = setInterval(() => this.sync(), this.syncInterval);
+  }
+
+  stop() {
+    clearInterval(this.syncTimer);
+    clearTimeout(this.discoveryRetryTimeout);
+    this.offlineQueue?.stop();
+  }
+
+  /**
+   * Get the rooms and bulbs of the account and register them as accessories.
+   * A failed discovery is retried with backoff, the cached accessories keep working meanwhile.
+   */
+  discover() {
+    if (this.isDiscoveryInProgress) {
+      this.platform.log.debug(`Device discovery${this.describe()} already in progress, skipping...`);
+      return;
+    }
+    this.isDiscoveryInProgress = true;
+    this.getRooms()
+      .then(rooms => this.reconcile(rooms))
+      .catch(error => {
+        // a failed request says nothing about the account, keep every cached accessory working
+        const delay = this.discoveryRetryDelay;
+        this.platform.log.error(`Device discovery${this.describe()} failed, keeping its cached accessories and retrying in ${delay} s:`,
+          error?.message ?? error);
+        this.platform.restoreCachedHandlers(this);
+        this.discoveryRetryTimeout = setTimeout(() => this.discover(), delay * 1000);
+        this.discoveryRetryDelay = Math.min(MAX_DISCOVERY_RETRY_DELAY, delay * 2);
+      })
+      .finally(() => {
+        this.isDiscoveryInProgress = false;
+      });
+  }
+
+  // Get all rooms and bulbs from server and reconcile the accessories with them
+  async sync() {
+    if (this.isDiscoveryInProgress) {
+      return;
+    }
+    try {
+      this.reconcile(await this.getRooms());
+    } catch (error) {
+      this.platform.log.error(`Failed to sync bulbs with server${this.describe()}:`, error);
+    }
+  }
+
+  private reconcile(rooms: TuolifeRoom[]) {
+    // a successful response makes a pending discovery retry unnecessary
+    clearTimeout(this.discoveryRetryTimeout);
+    this.discoveryRetryDelay = DISCOVERY_RETRY_DELAY;
+    this.platform.reconcileAccessories(this, rooms);
+  }
+
+  async getRooms(): Promise<TuolifeRoom[]> {
+    // Get state from server, failures are thrown so callers can tell them apart from an empty account
+    const rooms = await this.trackCloud(this.apiClient.roomsByUser());
+    this.platform.log.debug(`getRoomsFromServer${this.describe()}:`, rooms);
+    return rooms;
+  }
+
+  // Send the state of a group to the server
+  send(update: TuoLifeGroupUpdate): Promise<void> {
+    return this.trackCloud(this.apiClient.roomModeStart(update));
+  }
+
+  isReachable(): boolean {
+    return this.reachable;
+  }
+
+  // Follow whether the TuoLife cloud can be reached from the outcome of a request
+  private async trackCloud<T>(request: Promise<T>): Promise<T> {
+    try {
+      const result = await request;
+      this.setReachable(true);
+      return result;
+    } catch (error) {
+      if (isCloudFailure(error)) {
+        this.setReachable(false, error as Error);
+      }
+      throw error;
+    }
+  }
+
+  private setReachable(reachable: boolean, error?: Error) {
+    if (reachable === this.reachable) {
+      return;
+    }
+    this.reachable = reachable;
+    if (reachable) {
+      this.platform.log.info(`TuoLife cloud is reachable again${this.describe()}`);
+      this.offlineQueue?.replay();
+    } else {
+      this.platform.log.warn(`TuoLife cloud is unreachable${this.describe()}, lights show No Response until it is back:`, error?.message);
+    }
+    this.platform.updateAvailability(this);
+  }
+
+  // Files of other accounts than the one at the top level of the config get the account id in their name
+  private fileName(name: string): string {
+    return this.id ? name.replace(/\.json$/, `-${this.id}.json`) : name;
+  }
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { runCli } from './tuolifecli.js';
+
+/**
+ * Entry point of the tuolife command, see `tuolife --help`
+ */
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,143 @@
+import type { TuoLifeColorChannels } from './types.js';
+
+/**
+ * HomeKit color, hue in degrees (0-360) and saturation in percent (0-100)
+ */
+export type HueSaturation = {
+  hue: number;
+  saturation: number;
+};
+
+// All color channels of a TuoLife bulb
+export const COLOR_CHANNELS: Array<keyof TuoLifeColorChannels> = ['red', 'green', 'blue', 'violet', 'whiteColor'];
+
+// TuoLife channel values are percentages, like brightness
+const CHANNEL_MAX = 100;
+
+// The violet channel is centered between blue (240) and magenta (300)
+const VIOLET_HUE = 270;
+const VIOLET_HUE_SPREAD = 30;
+
+const clampChannel = (value: number): number => Math.min(CHANNEL_MAX, Math.max(0, Math.round(value)));
+
+/**
+ * Convert a HomeKit hue/saturation pair to the five TuoLife color channels.
+ * Saturation controls the mix between the white channel and the colored channels,
+ * the purple part of the hue wheel is handed over to the violet channel.
+ * Brightness is not part of the mix, it is sent separately with every update.
+ */
+export function hueSaturationToChannels(hue: number, saturation: number): TuoLifeColorChannels {
+  const h = ((hue % 360) + 360) % 360;
+  const s = Math.min(100, Math.max(0, saturation)) / 100;
+
+  // fully saturated rgb for this hue, the strongest component is always 1
+  const segment = h / 60;
+  const x = 1 - Math.abs((segment % 2) - 1);
+  let [r, g, b] = [0, 0, 0];
+  if (segment < 1) {
+    [r, g, b] = [1, x, 0];
+  } else if (segment < 2) {
+    [r, g, b] = [x, 1, 0];
+  } else if (segment < 3) {
+    [r, g, b] = [0, 1, x];
+  } else if (segment < 4) {
+    [r, g, b] = [0, x, 1];
+  } else if (segment < 5) {
+    [r, g, b] = [x, 0, 1];
+  } else {
+    [r, g, b] = [1, 0, x];
+  }
+
+  // move the shared red + blue part into violet, strongest at VIOLET_HUE
+  const violetWeight = Math.max(0, 1 - Math.abs(h - VIOLET_HUE) / VIOLET_HUE_SPREAD);
+  const v = Math.min(r, b) * violetWeight;
+  r -= v;
+  b -= v;
+
+  return {
+    red: clampChannel(r * s * CHANNEL_MAX),
+    green: clampChannel(g * s * CHANNEL_MAX),
+    blue: clampChannel(b * s * CHANNEL_MAX),
+    violet: clampChannel(v * s * CHANNEL_MAX),
+    whiteColor: clampChannel((1 - s) * CHANNEL_MAX),
+  };
+}
+
+/**
+ * Convert the five TuoLife color channels back to a HomeKit hue/saturation pair.
+ * Violet is read as an equal mix of red and blue, white lowers the saturation.
+ */
+export function channelsToHueSaturation(channels: TuoLifeColorChannels): HueSaturation {
+  const r = Math.max(0, channels.red + channels.violet) / CHANNEL_MAX;
+  const g = Math.max(0, channels.green) / CHANNEL_MAX;
+  const b = Math.max(0, channels.blue + channels.violet) / CHANNEL_MAX;
+  const w = Math.max(0, channels.whiteColor) / CHANNEL_MAX;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+
+  let hue = 0;
+  if (chroma > 0) {
+    if (max === r) {
+      hue = 60 * (((g - b) / chroma) % 6);
+    } else if (max === g) {
+      hue = 60 * ((b - r) / chroma + 2);
+    } else {
+      hue = 60 * ((r - g) / chroma + 4);
+    }
+  }
+  if (hue < 0) {
+    hue += 360;
+  }
+
+  // anything the rgb channels have in common is white light as well
+  const white = w + min;
+  const saturation = chroma + white > 0 ? chroma / (chroma + white) * 100 : 0;
+
+  return {
+    hue: Math.round(hue) % 360,
+    saturation: Math.round(saturation),
+  };
+}
+
+// HomeKit color temperature range in mired, coolest to warmest
+export const COLOR_TEMPERATURE_MIN = 140;
+export const COLOR_TEMPERATURE_MAX = 500;
+
+// Channel mix at the warm end, the cool end uses blue and violet instead
+const WARM_RED = 70;
+const WARM_GREEN = 30;
+const COOL_BLUE = 40;
+const COOL_VIOLET = 20;
+
+/**
+ * Convert a HomeKit color temperature (mired) to the five TuoLife color channels.
+ * White is always at full level, warm temperatures add red and green,
+ * cool temperatures add blue and violet.
+ */
+export function colorTemperatureToChannels(mired: number): TuoLifeColorChannels {
+  const clamped = Math.min(COLOR_TEMPERATURE_MAX, Math.max(COLOR_TEMPERATURE_MIN, mired));
+  const warmth = (clamped - COLOR_TEMPERATURE_MIN) / (COLOR_TEMPERATURE_MAX - COLOR_TEMPERATURE_MIN);
+
+  return {
+    red: clampChannel(WARM_RED * warmth),
+    green: clampChannel(WARM_GREEN * warmth),
+    blue: clampChannel(COOL_BLUE * (1 - warmth)),
+    violet: clampChannel(COOL_VIOLET * (1 - warmth)),
+    whiteColor: CHANNEL_MAX,
+  };
+}
+
+/**
+ * Convert the five TuoLife color channels back to a HomeKit color temperature (mired).
+ * The balance between the warm red and the cool blue channel decides the temperature,
+ * without either of them the light is treated as neutral white.
+ */
+export function channelsToColorTemperature(channels: TuoLifeColorChannels): number {
+  const warm = Math.max(0, channels.red) / WARM_RED;
+  const cool = Math.max(0, channels.blue) / COOL_BLUE;
+  const warmth = warm + cool > 0 ? warm / (warm + cool) : 0.5;
+
+  return Math.round(COLOR_TEMPERATURE_MIN + warmth * (COLOR_TEMPERATURE_MAX - COLOR_TEMPERATURE_MIN));
+}
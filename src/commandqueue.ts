@@ -0,0 +1,163 @@
+import type { Logging } from 'homebridge';
+
+import { TuoLifeGroupUpdate } from './types.js';
+
+export type TuoLifeCommandQueueOptions = {
+  // sends the state of a group to the cloud
+  send(update: TuoLifeGroupUpdate): Promise<void>;
+  // the server accepted the state of a group
+  confirm(update: TuoLifeGroupUpdate): void;
+  // the server did not accept the state of a group and no newer state is queued
+  rollback(groupId: string): void;
+  // the cloud could not be reached, returns true when the state is kept to be sent later
+  keep?(update: TuoLifeGroupUpdate, error: unknown): boolean;
+  // milliseconds to wait for further changes of a group before sending
+  debounce: number;
+  // minimum milliseconds between two requests to the cloud
+  minInterval: number;
+  log: Logging;
+};
+
+type Waiter = {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+};
+
+// Queue state of one group
+type GroupQueue = {
+  // latest intended state, not sent yet
+  pending?: TuoLifeGroupUpdate;
+  // callers waiting for the pending state
+  waiters: Waiter[];
+  timer?: NodeJS.Timeout;
+  // the running request of the group, settles once the group is ready for the next one
+  sending?: Promise<void>;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * TuoLife Command Queue
+ * Collects the changes HomeKit makes to a group, e.g. while a slider is dragged or when On and
+ * Brightness arrive back to back, and sends only the latest state of the group in one request.
+ * Requests of a group never overlap, so they can't arrive out of order, and requests to the
+ * cloud are kept a minimum interval apart.
+ */
+export class TuoLifeCommandQueue {
+  private readonly groups: Map<string, GroupQueue> = new Map();
+  // earliest time the next request may be sent
+  private nextSlot = 0;
+
+  constructor(private readonly options: TuoLifeCommandQueueOptions) {}
+
+  /**
+   * Queue the intended state of a group, replacing the state queued before.
+   * Settles once this state, or a later one replacing it, was sent.
+   */
+  enqueue(update: TuoLifeGroupUpdate): Promise<void> {
+    let group = this.groups.get(update.groupId);
+    if (!group) {
+      group = { waiters: [] };
+      this.groups.set(update.groupId, group);
+    }
+    group.pending = update;
+    const result = new Promise<void>((resolve, reject) => group.waiters.push({ resolve, reject }));
+
+    // while a request is running the next one is scheduled when it finishes
+    if (!group.sending) {
+      this.schedule(update.groupId, group);
+    }
+    return result;
+  }
+
+  /**
+   * Send a state kept while the cloud was unreachable, as far apart from other requests as every queued one.
+   * It takes its turn after the running request of the group, and is dropped when `current` tells a newer
+   * state replaced it meanwhile. The caller handles the outcome, nothing is confirmed, rolled back or kept.
+   */
+  async replay(update: TuoLifeGroupUpdate, current: () => boolean): Promise<void> {
+    let group = this.groups.get(update.groupId);
+    while (group?.sending) {
+      await group.sending;
+      group = this.groups.get(update.groupId);
+    }
+    if (!group) {
+      group = { waiters: [] };
+      this.groups.set(update.groupId, group);
+    }
+
+    const request = this.sendReplay(update, current);
+    group.sending = request.catch(() => {}).then(() => this.finish(update.groupId, group));
+    return request;
+  }
+
+  private async sendReplay(update: TuoLifeGroupUpdate, current: () => boolean) {
+    await this.waitForSlot();
+    if (!current()) {
+      this.options.log.debug(`Dropping pending update for group ${update.groupId}, a newer one replaced it`);
+      return;
+    }
+    this.options.log.debug(`Sending pending update for group ${update.groupId}`);
+    await this.options.send(update);
+  }
+
+  private schedule(groupId: string, group: GroupQueue) {
+    clearTimeout(group.timer);
+    group.timer = setTimeout(() => this.flush(groupId, group), this.options.debounce);
+  }
+
+  private flush(groupId: string, group: GroupQueue) {
+    group.timer = undefined;
+    // a replay took the turn, the state is scheduled again when it finishes
+    if (group.sending) {
+      return;
+    }
+    group.sending = this.sendPending(groupId, group).finally(() => this.finish(groupId, group));
+  }
+
+  private async sendPending(groupId: string, group: GroupQueue) {
+    const update = group.pending!;
+    const waiters = group.waiters;
+    group.pending = undefined;
+    group.waiters = [];
+
+    try {
+      await this.waitForSlot();
+      this.options.log.debug(`Sending queued update for group ${groupId} (${waiters.length} changes)`);
+      await this.options.send(update);
+      this.options.confirm(update);
+      waiters.forEach(waiter => waiter.resolve());
+    } catch (error) {
+      // a newer state replaces the failed one anyway
+      if (group.pending) {
+        waiters.forEach(waiter => waiter.reject(error));
+      } else if (this.options.keep?.(update, error)) {
+        // the accessories keep showing the state until it is sent or given up
+        waiters.forEach(waiter => waiter.resolve());
+      } else {
+        this.options.rollback(groupId);
+        waiters.forEach(waiter => waiter.reject(error));
+      }
+    }
+  }
+
+  // The request of a group finished, the state queued meanwhile is next
+  private finish(groupId: string, group: GroupQueue) {
+    group.sending = undefined;
+    if (group.pending) {
+      this.schedule(groupId, group);
+    } else {
+      this.groups.delete(groupId);
+    }
+  }
+
+  // Reserve the next free slot for a request and wait for it
+  private async waitForSlot() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.options.minInterval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
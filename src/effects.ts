@@ -0,0 +1,263 @@
+import type { CharacteristicValue, Logging, PlatformAccessory, Service } from 'homebridge';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import { updateIfChanged } from './util.js';
+import { TuoLifeEffect, TuoLifeGroupUpdate, TuoLifeKeyframe, TuoLifeLightState, deviceModes } from './types.js';
+
+export type TuoLifeEffectEngineOptions = {
+  // sends one step of an effect
+  send(update: TuoLifeGroupUpdate): Promise<void>;
+  // an effect of the group started or stopped
+  changed(groupId: string): void;
+  // milliseconds between two steps, unless the effect sets its own
+  stepInterval: number;
+  // steps are never closer than this, so they stay within the rate limit of the command queue
+  minStepInterval: number;
+  log: Logging;
+};
+
+// An effect running on a group
+type RunningEffect = {
+  effect: TuoLifeEffect;
+  startedAt: number;
+  timer?: NodeJS.Timeout;
+  stopped: boolean;
+};
+
+// subtype prefix of the Switch services that start an effect
+const EFFECT_SUBTYPE_PREFIX = 'effect-';
+
+// A keyframe without values starts with white light at full brightness
+const FIRST_KEYFRAME: TuoLifeLightState = { modeId: deviceModes.on, brightness: 100, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 };
+
+const clampPercent = (value: number): number => Math.min(100, Math.max(0, value));
+
+/**
+ * State of the lights the given number of seconds into an effect, interpolated between its keyframes.
+ * A brightness of 0 turns the lights off.
+ */
+export function effectStateAt(effect: TuoLifeEffect, seconds: number): TuoLifeLightState {
+  const keyframes = effect.keyframes;
+  const next = keyframes.findIndex(keyframe => keyframe.time > seconds);
+  const from = keyframes[next === -1 ? keyframes.length - 1 : Math.max(0, next - 1)];
+  const to = next === -1 ? from : keyframes[next];
+  const progress = to.time > from.time ? (seconds - from.time) / (to.time - from.time) : 0;
+  const mix = (a: number, b: number) => Math.round(a + (b - a) * Math.min(1, Math.max(0, progress)));
+
+  const state: TuoLifeLightState = {
+    modeId: from.modeId,
+    brightness: mix(from.brightness, to.brightness),
+    red: mix(from.red, to.red),
+    green: mix(from.green, to.green),
+    blue: mix(from.blue, to.blue),
+    violet: mix(from.violet, to.violet),
+    whiteColor: mix(from.whiteColor, to.whiteColor),
+  };
+  if (state.brightness <= 0) {
+    state.modeId = deviceModes.off;
+  }
+  return state;
+}
+
+/**
+ * Read the effects from config, invalid effects and keyframes are skipped with a warning.
+ * Missing keyframe values are taken from the keyframe before.
+ */
+export function parseEffects(configEffects: unknown, log: Logging): TuoLifeEffect[] {
+  if (configEffects === undefined) {
+    return [];
+  }
+  if (!Array.isArray(configEffects)) {
+    log.warn('Ignoring effects in config, expected a list');
+    return [];
+  }
+
+  const effects: TuoLifeEffect[] = [];
+  for (const config of configEffects) {
+    const id = typeof config?.id === 'string' ? config.id.trim() : '';
+    if (!id) {
+      log.warn('Ignoring effect without id in config:', config);
+      continue;
+    }
+    if (effects.some(known => known.id === id)) {
+      log.warn('Ignoring duplicate effect in config:', id);
+      continue;
+    }
+
+    const keyframes: TuoLifeKeyframe[] = [];
+    const configKeyframes = Array.isArray(config.keyframes) ? [...config.keyframes] : [];
+    configKeyframes.sort((a, b) => Number(a?.time) - Number(b?.time));
+    for (const keyframe of configKeyframes) {
+      const time = Number(keyframe?.time);
+      if (!Number.isFinite(time) || time < 0) {
+        log.warn(`Ignoring keyframe of effect ${id} in config, time must be 0 or more seconds:`, keyframe);
+        continue;
+      }
+      const previous: TuoLifeLightState = keyframes[keyframes.length - 1] ?? FIRST_KEYFRAME;
+      const value = (key: keyof TuoLifeLightState) => keyframe[key] !== undefined && Number.isFinite(Number(keyframe[key]))
+        ? clampPercent(Number(keyframe[key]))
+        : previous[key] as number;
+      const parsed: TuoLifeKeyframe = {
+        time,
+        modeId: typeof keyframe.modeId === 'string' && keyframe.modeId.trim() ? keyframe.modeId.trim() : previous.modeId,
+        brightness: value('brightness'),
+        red: value('red'),
+        green: value('green'),
+        blue: value('blue'),
+        violet: value('violet'),
+        whiteColor: value('whiteColor'),
+      };
+      if (parsed.modeId === deviceModes.off) {
+        parsed.modeId = deviceModes.on;
+        parsed.brightness = 0;
+      }
+      keyframes.push(parsed);
+    }
+    if (keyframes.length < 2 || keyframes[keyframes.length - 1].time <= 0) {
+      log.warn(`Ignoring effect ${id} in config, it needs at least two keyframes at different times`);
+      continue;
+    }
+    // the effect starts right away, from the first keyframe
+    const offset = keyframes[0].time;
+    keyframes.forEach(keyframe => keyframe.time -= offset);
+
+    const stepInterval = Number(config.stepInterval);
+    effects.push({
+      id,
+      name: typeof config.name === 'string' && config.name.trim() ? config.name.trim() : id,
+      keyframes,
+      loop: config.loop === true,
+      stepInterval: stepInterval > 0 ? stepInterval : undefined,
+    });
+  }
+  return effects;
+}
+
+/**
+ * TuoLife Effect Engine
+ * Runs timed effects like a sunrise or a color cycle by sending a stepped update to the group every few seconds.
+ * A group runs at most one effect, the next step is only scheduled once the previous one was sent.
+ */
+export class TuoLifeEffectEngine {
+  private readonly running: Map<string, RunningEffect> = new Map();
+
+  constructor(private readonly options: TuoLifeEffectEngineOptions) {}
+
+  // Id of the effect running on the group
+  getRunningEffect(groupId: string): string | undefined {
+    return this.running.get(groupId)?.effect.id;
+  }
+
+  start(groupId: string, effect: TuoLifeEffect) {
+    this.stop(groupId);
+    const run: RunningEffect = { effect, startedAt: Date.now(), stopped: false };
+    this.running.set(groupId, run);
+    this.options.log.info(`Starting effect ${effect.name} on group ${groupId}`);
+    this.options.changed(groupId);
+    this.step(groupId, run);
+  }
+
+  // Stop the effect of a group, returns false when none was running
+  stop(groupId: string, reason?: string): boolean {
+    const run = this.running.get(groupId);
+    if (!run) {
+      return false;
+    }
+    run.stopped = true;
+    clearTimeout(run.timer);
+    this.running.delete(groupId);
+    this.options.log.info(`Stopped effect ${run.effect.name} on group ${groupId}${reason ? `, ${reason}` : ''}`);
+    this.options.changed(groupId);
+    return true;
+  }
+
+  stopAll() {
+    for (const run of this.running.values()) {
+      run.stopped = true;
+      clearTimeout(run.timer);
+    }
+    this.running.clear();
+  }
+
+  private async step(groupId: string, run: RunningEffect) {
+    const effect = run.effect;
+    const duration = effect.keyframes[effect.keyframes.length - 1].time;
+    const elapsed = (Date.now() - run.startedAt) / 1000;
+    const finished = !effect.loop && elapsed >= duration;
+    const state = effectStateAt(effect, effect.loop ? elapsed % duration : Math.min(elapsed, duration));
+
+    try {
+      await this.options.send({ groupId, ...state });
+    } catch (error) {
+      if (!run.stopped) {
+        this.stop(groupId, `a step failed: ${(error as Error)?.message ?? error}`);
+      }
+      return;
+    }
+    if (run.stopped) {
+      return;
+    }
+    if (finished) {
+      this.running.delete(groupId);
+      this.options.log.info(`Finished effect ${effect.name} on group ${groupId}`);
+      this.options.changed(groupId);
+      return;
+    }
+
+    // the last step of an effect lands on its last keyframe
+    const interval = effect.stepInterval !== undefined ? effect.stepInterval * 1000 : this.options.stepInterval;
+    const untilEnd = effect.loop ? interval : (duration - elapsed) * 1000;
+    const delay = Math.max(this.options.minStepInterval, Math.min(interval, untilEnd));
+    run.timer = setTimeout(() => this.step(groupId, run), delay);
+  }
+}
+
+/**
+ * Add a Switch service for every configured effect and remove the ones left over from effects
+ * that are no longer in the config. The switches start and stop the effect on the group of the accessory.
+ */
+export function configureEffectSwitches(
+  platform: TuoLifeHomebridgePlatform,
+  accessory: PlatformAccessory,
+  getGroupId: () => string,
+): Map<string, Service> {
+  const effectSubtypes = platform.effects.map(effect => EFFECT_SUBTYPE_PREFIX + effect.id);
+  for (const service of [...accessory.services]) {
+    if (service.UUID === platform.Service.Switch.UUID && service.subtype?.startsWith(EFFECT_SUBTYPE_PREFIX)
+      && !effectSubtypes.includes(service.subtype)) {
+      platform.log.debug('Removing effect switch:', service.displayName);
+      accessory.removeService(service);
+    }
+  }
+
+  const services: Map<string, Service> = new Map();
+  for (const effect of platform.effects) {
+    const subtype = EFFECT_SUBTYPE_PREFIX + effect.id;
+    const service = accessory.getServiceById(platform.Service.Switch, subtype)
+      || accessory.addService(platform.Service.Switch, effect.name, subtype);
+    service.setCharacteristic(platform.Characteristic.Name, effect.name);
+    service.updateCharacteristic(platform.Characteristic.On, platform.getRunningEffect(getGroupId()) === effect.id);
+    service.getCharacteristic(platform.Characteristic.On)
+      .onSet((value: CharacteristicValue) => {
+        if (!platform.isCloudReachable(getGroupId())) {
+          throw platform.communicationFailure();
+        }
+        if (value) {
+          platform.startEffect(getGroupId(), effect);
+        } else if (platform.getRunningEffect(getGroupId()) === effect.id) {
+          platform.stopEffect(getGroupId());
+        }
+      });
+    services.set(effect.id, service);
+  }
+  return services;
+}
+
+// Reflect the effect running on the group on the effect switches, returns true when a switch changed
+export function updateEffectSwitches(platform: TuoLifeHomebridgePlatform, services: Map<string, Service>, groupId: string): boolean {
+  let changed = false;
+  for (const [effectId, service] of services) {
+    changed = updateIfChanged(service, platform.Characteristic.On, platform.getRunningEffect(groupId) === effectId) || changed;
+  }
+  return changed;
+}
@@ -0,0 +1,49 @@
+/**
+ * Base class of all errors raised by the TuoLife API client
+ */
+export class TuoLifeApiError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TuoLifeApiError';
+  }
+}
+
+/**
+ * The server rejected the credentials (401/403)
+ */
+export class TuoLifeAuthError extends TuoLifeApiError {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TuoLifeAuthError';
+  }
+}
+
+/**
+ * The server could not be reached, or did not answer in time
+ */
+export class TuoLifeNetworkError extends TuoLifeApiError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TuoLifeNetworkError';
+  }
+}
+
+/**
+ * The server answered with an unexpected status code
+ */
+export class TuoLifeServerError extends TuoLifeApiError {
+  constructor(message: string, public readonly status: number, public readonly retryAfter?: number) {
+    super(message);
+    this.name = 'TuoLifeServerError';
+  }
+}
+
+/**
+ * The server answered with a body that isn't valid JSON or doesn't have the expected shape
+ */
+export class TuoLifeParseError extends TuoLifeApiError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'TuoLifeParseError';
+  }
+}
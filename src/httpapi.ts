@@ -0,0 +1,362 @@
+import type { Logging } from 'homebridge';
+
+import { timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import type { TuoLifeBulbAccessory } from './tuolifebulb.js';
+import type { TuoLifeRoomAccessory } from './tuoliferoom.js';
+import {
+  COLOR_TEMPERATURE_MAX,
+  COLOR_TEMPERATURE_MIN,
+  channelsToHueSaturation,
+  colorTemperatureToChannels,
+  hueSaturationToChannels,
+} from './color.js';
+import { TuoLifeLightState, deviceModes } from './types.js';
+
+export type TuoLifeHttpApiOptions = {
+  port: number;
+  // interface to listen on, all interfaces when undefined
+  host?: string;
+  // bearer token every request has to send
+  token: string;
+  log: Logging;
+};
+
+// Changes accepted by POST /rooms/:groupId and POST /bulbs/:bulbId
+type ControlRequest = {
+  on?: boolean;
+  modeId?: string;
+  brightness?: number;
+  hue?: number;
+  saturation?: number;
+  colorTemperature?: number;
+};
+
+// requests with a larger body are rejected
+const MAX_BODY_SIZE = 65536;
+
+// A failed request, answered with the status code and message
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Check the types and ranges of a control request, the error lists what is wrong
+function parseControlRequest(body: unknown): ControlRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Expected a JSON object');
+  }
+  const request = body as Record<string, unknown>;
+  const problems: string[] = [];
+  if (request.on !== undefined && typeof request.on !== 'boolean') {
+    problems.push('on must be true or false');
+  }
+  if (request.modeId !== undefined && (typeof request.modeId !== 'string' || !request.modeId || request.modeId === deviceModes.off)) {
+    problems.push('modeId must be the id of a TuoLife mode');
+  }
+  if (request.brightness !== undefined && !isNumberIn(request.brightness, 0, 100)) {
+    problems.push('brightness must be a number from 0 to 100');
+  }
+  if (request.hue !== undefined && !isNumberIn(request.hue, 0, 360)) {
+    problems.push('hue must be a number from 0 to 360');
+  }
+  if (request.saturation !== undefined && !isNumberIn(request.saturation, 0, 100)) {
+    problems.push('saturation must be a number from 0 to 100');
+  }
+  if (request.colorTemperature !== undefined && !isNumberIn(request.colorTemperature, COLOR_TEMPERATURE_MIN, COLOR_TEMPERATURE_MAX)) {
+    problems.push(`colorTemperature must be a number from ${COLOR_TEMPERATURE_MIN} to ${COLOR_TEMPERATURE_MAX} mired`);
+  }
+  if ((request.hue === undefined) !== (request.saturation === undefined)) {
+    problems.push('hue and saturation must be set together');
+  }
+  if (problems.length > 0) {
+    throw new HttpError(400, problems.join(', '));
+  }
+  return request as ControlRequest;
+}
+
+/**
+ * All changes of a control request as one state, turning off wins over everything else.
+ * A light that is off is turned on with its power-on state by any change, undefined when nothing changes.
+ */
+function createControlState(request: ControlRequest, current: TuoLifeLightState, powerOn: TuoLifeLightState): Partial<TuoLifeLightState> | undefined {
+  if (request.on === false) {
+    return { modeId: deviceModes.off };
+  }
+  const changes: Partial<TuoLifeLightState> = {};
+  if (request.modeId) {
+    changes.modeId = request.modeId;
+  }
+  if (request.brightness !== undefined) {
+    changes.brightness = request.brightness;
+  }
+  if (request.hue !== undefined && request.saturation !== undefined) {
+    Object.assign(changes, hueSaturationToChannels(request.hue, request.saturation));
+  }
+  if (request.colorTemperature !== undefined) {
+    Object.assign(changes, colorTemperatureToChannels(request.colorTemperature));
+  }
+  if (current.modeId === deviceModes.off && (request.on || Object.keys(changes).length > 0)) {
+    return { ...powerOn, ...changes };
+  }
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+// Segments of the request path, a malformed escape in it is the client's fault
+// Path segments of a request, and the label of the account given with ?account=, empty for the account at the top of the config
+function parseUrl(url = '/'): { path: string[]; account?: string } {
+  try {
+    const parsed = new URL(url, 'http://localhost');
+    return {
+      path: parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent),
+      account: parsed.searchParams.get('account') ?? undefined,
+    };
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new HttpError(400, 'Malformed request path');
+    }
+    throw error;
+  }
+}
+
+/**
+ * TuoLife HTTP API
+ * Optional local HTTP server for dashboards and automations outside of HomeKit.
+ * Lists rooms and bulbs with their cached state and controls them through the same
+ * handlers HomeKit uses, so every change also shows up in HomeKit right away.
+ * Every request needs the configured bearer token.
+ */
+export class TuoLifeHttpApi {
+  private server?: Server;
+
+  constructor(
+    private readonly platform: TuoLifeHomebridgePlatform,
+    private readonly options: TuoLifeHttpApiOptions,
+  ) {}
+
+  start() {
+    this.server = createServer((request, response) => this.handle(request, response));
+    this.server.on('error', error => this.options.log.error('TuoLife HTTP API failed:', error.message));
+    this.server.listen(this.options.port, this.options.host, () => {
+      this.options.log.info(`TuoLife HTTP API listening on ${this.options.host ?? 'all interfaces'}, port ${this.options.port}`);
+    });
+  }
+
+  stop() {
+    this.server?.close();
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    let status = 200;
+    let result: unknown;
+    try {
+      this.authorize(request);
+      const body = request.method === 'POST' ? await this.readBody(request) : undefined;
+      const { path, account } = parseUrl(request.url);
+      result = await this.route(request.method ?? 'GET', path, body, account);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        status = error.status;
+      } else if (error instanceof this.platform.api.hap.HapStatusError) {
+        // the same error HomeKit shows as "No Response"
+        status = 503;
+      } else {
+        status = 500;
+        this.options.log.error('TuoLife HTTP API request failed:', error);
+      }
+      result = { error: (error as Error).message };
+    }
+
+    // the rest of a body that is too large is never read, the connection can't take another request
+    response.writeHead(status, { 'Content-Type': 'application/json', ...(status === 413 ? { Connection: 'close' } : {}) });
+    response.end(JSON.stringify(result));
+  }
+
+  private authorize(request: IncomingMessage) {
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(request.headers.authorization ?? '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new HttpError(401, 'Missing or wrong bearer token');
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          // stop reading, the connection is closed once the 413 is sent
+          request.removeAllListeners('data');
+          request.pause();
+          reject(new HttpError(413, 'Request body is too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve(text ? JSON.parse(text) : {});
+        } catch {
+          reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private async route(method: string, path: string[], body: unknown, account?: string): Promise<unknown> {
+    const [collection, id, action] = path;
+    const route = `${method} /${collection ?? ''}${id !== undefined ? '/:id' : ''}${action !== undefined ? `/${action}` : ''}`;
+
+    switch (route) {
+    case 'GET /rooms':
+      return this.platform.getRoomHandlers().map(room => this.describeRoom(room));
+    case 'GET /rooms/:id':
+      return this.describeRoom(this.findRoom(id, account));
+    case 'POST /rooms/:id': {
+      const room = this.findRoom(id, account);
+      await this.controlRoom(room, parseControlRequest(body));
+      return this.describeRoom(room);
+    }
+    case 'GET /bulbs':
+      return this.platform.getBulbHandlers().map(bulb => this.describeBulb(bulb));
+    case 'GET /bulbs/:id':
+      return this.describeBulb(this.findBulb(id, account));
+    case 'POST /bulbs/:id': {
+      const bulb = this.findBulb(id, account);
+      await this.controlBulb(bulb, parseControlRequest(body));
+      return this.describeBulb(bulb);
+    }
+    case 'GET /scenes':
+      return this.platform.scenes;
+    case 'POST /scenes/:id/recall':
+    case 'POST /scenes/:id/save':
+      if (!await this.platform.runScene(id, action as 'recall' | 'save')) {
+        throw new HttpError(404, `Unknown scene ${id}`);
+      }
+      return { ok: true };
+    case 'GET /usage':
+      if (!this.platform.usageHistory) {
+        throw new HttpError(404, 'The usage history is turned off in config');
+      }
+      return this.platform.usageHistory.export();
+    case 'GET /effects':
+      return this.platform.effects.map(effect => ({ id: effect.id, name: effect.name, loop: effect.loop }));
+    case 'POST /effects/:id/start':
+    case 'POST /effects/:id/stop':
+      return this.controlEffect(id, action, body);
+    default:
+      throw new HttpError(404, `Unknown route ${method} /${path.join('/')}`);
+    }
+  }
+
+  private findRoom(groupId: string, account?: string): TuoLifeRoomAccessory {
+    return this.pickAccount(this.platform.getRoomHandlers().filter(handler => handler.getGroupId() === groupId), `room ${groupId}`, account);
+  }
+
+  private findBulb(bulbId: string, account?: string): TuoLifeBulbAccessory {
+    return this.pickAccount(this.platform.getBulbHandlers().filter(handler => String(handler.getBulbId()) === bulbId), `bulb ${bulbId}`, account);
+  }
+
+  /**
+   * The one light of the matches, of the account with the given label when there is one.
+   * Accounts may use the same ids, without a label such an id is ambiguous.
+   */
+  private pickAccount<T extends TuoLifeRoomAccessory | TuoLifeBulbAccessory>(matches: T[], target: string, label?: string): T {
+    let candidates = matches;
+    if (label !== undefined) {
+      const accountId = label ? this.platform.findListedAccount(label)?.id : '';
+      if (accountId === undefined) {
+        throw new HttpError(404, `Unknown account ${label}`);
+      }
+      candidates = matches.filter(match => match.getAccountId() === accountId);
+    }
+    if (candidates.length === 0) {
+      throw new HttpError(404, `Unknown ${target}`);
+    }
+    if (candidates.length > 1) {
+      throw new HttpError(409, `There is a ${target} in several accounts, pick one with ?account=<label>`);
+    }
+    return candidates[0];
+  }
+
+  private describeRoom(room: TuoLifeRoomAccessory) {
+    const state = room.getLightState();
+    return {
+      groupId: room.getGroupId(),
+      account: this.platform.getAccountLabel(room.getAccountId()) ?? null,
+      name: room.getDisplayName(),
+      bulbIds: room.getBulbIds(),
+      reachable: this.platform.isCloudReachable(room.getGroupId()),
+      on: state.modeId !== deviceModes.off,
+      ...state,
+      ...channelsToHueSaturation(state),
+      effect: this.platform.getRunningEffect(room.getGroupId()) ?? null,
+    };
+  }
+
+  private describeBulb(bulb: TuoLifeBulbAccessory) {
+    const state = bulb.getLightState();
+    return {
+      bulbId: bulb.getBulbId(),
+      groupId: bulb.getGroupId(),
+      account: this.platform.getAccountLabel(bulb.getAccountId()) ?? null,
+      name: bulb.getDisplayName(),
+      reachable: bulb.isReachable(),
+      on: state.modeId !== deviceModes.off,
+      ...state,
+      ...channelsToHueSaturation(state),
+      adaptiveLighting: bulb.isAdaptiveLightingActive(),
+      effect: this.platform.getRunningEffect(bulb.getGroupId()) ?? null,
+    };
+  }
+
+  // Send all changes of the request in one update
+  private async controlRoom(room: TuoLifeRoomAccessory, request: ControlRequest) {
+    if (request.colorTemperature !== undefined) {
+      throw new HttpError(400, 'Rooms have no color temperature, use hue and saturation');
+    }
+    const state = createControlState(request, room.getLightState(), room.getPowerOnState());
+    if (state) {
+      await room.setState(state);
+    }
+  }
+
+  private async controlBulb(bulb: TuoLifeBulbAccessory, request: ControlRequest) {
+    const state = createControlState(request, bulb.getLightState(), bulb.getPowerOnState());
+    if (state) {
+      await bulb.setState(state);
+    }
+  }
+
+  // Start or stop an effect on the room given as groupId in the body
+  private controlEffect(effectId: string, action: string, body: unknown) {
+    const effect = this.platform.effects.find(known => known.id === effectId);
+    if (!effect) {
+      throw new HttpError(404, `Unknown effect ${effectId}`);
+    }
+    const groupId = (body as Record<string, unknown>)?.groupId;
+    if (typeof groupId !== 'string' || !groupId) {
+      throw new HttpError(400, 'groupId of the room is missing');
+    }
+    if (!this.platform.isCloudReachable(groupId)) {
+      throw this.platform.communicationFailure();
+    }
+    if (action === 'start') {
+      this.platform.startEffect(groupId, effect);
+    } else if (this.platform.getRunningEffect(groupId) === effect.id) {
+      this.platform.stopEffect(groupId);
+    }
+    return { groupId, effect: this.platform.getRunningEffect(groupId) ?? null };
+  }
+}
@@ -0,0 +1,68 @@
+import type { PlatformAccessory } from 'homebridge';
+
+import { PayloadWarning, normalizeDevice, normalizeRoomDevice } from './validation.js';
+
+type AccessoryContext = PlatformAccessory['context'];
+
+// Brings a cached context from the version before to its own version, returns false when the accessory can't be used anymore
+type Migration = (context: AccessoryContext, warn: PayloadWarning) => boolean;
+
+// Placeholders older versions filled in for missing ids, several broken bulbs ended up sharing them
+const PLACEHOLDER_IDS = ['defaultId', 'defaultGroupId'];
+
+/**
+ * Migrations by the context version they lead to, cached contexts without a version are version 0.
+ * Add a migration and raise ACCESSORY_CONTEXT_VERSION whenever the shape of the context changes.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 1: device and room fields get their types, bulbs cached with placeholder ids are dropped
+  1: (context, warn) => {
+    if (context.device) {
+      const device = normalizeDevice(context.device, warn);
+      if (!device || PLACEHOLDER_IDS.includes(device.bulbId) || PLACEHOLDER_IDS.includes(device.groupId)) {
+        return false;
+      }
+      context.device = device;
+    }
+    if (context.room) {
+      const room = normalizeRoomDevice(context.room, warn);
+      if (!room) {
+        return false;
+      }
+      context.room = room;
+    }
+    if (context.lastOn !== undefined && (typeof context.lastOn !== 'object' || context.lastOn === null)) {
+      delete context.lastOn;
+    }
+    return true;
+  },
+  // 2: bulbs and rooms belong to an account, the ones cached before belong to the account at the top level of the config
+  2: context => {
+    if (context.device || context.room) {
+      context.account ??= '';
+    }
+    return true;
+  },
+};
+
+export const ACCESSORY_CONTEXT_VERSION = 2;
+
+/**
+ * Migrate the context of a cached accessory to the current version, step by step.
+ * Returns false when the accessory can't be used anymore and should be removed.
+ * Contexts written by a newer version of the plugin are used as they are.
+ */
+export function migrateAccessoryContext(context: AccessoryContext, warn: PayloadWarning): boolean {
+  const version = typeof context.schemaVersion === 'number' ? context.schemaVersion : 0;
+  if (version > ACCESSORY_CONTEXT_VERSION) {
+    warn(`cached by a newer version of the plugin (context version ${version}), using it as it is`);
+    return true;
+  }
+  for (let next = version + 1; next <= ACCESSORY_CONTEXT_VERSION; next++) {
+    if (!MIGRATIONS[next](context, warn)) {
+      return false;
+    }
+    context.schemaVersion = next;
+  }
+  return true;
+}
@@ -0,0 +1,168 @@
+import type { Logging } from 'homebridge';
+
+import { promises as fs } from 'node:fs';
+
+import { TuoLifeGroupUpdate } from './types.js';
+
+export type TuoLifeOfflineQueueOptions = {
+  // sends the state of a group to the cloud, unless `current` tells a newer state replaced it while it waited for its turn
+  send(update: TuoLifeGroupUpdate, current: () => boolean): Promise<void>;
+  // a replayed state reached the server
+  confirm(update: TuoLifeGroupUpdate): void;
+  // a state is dropped without reaching the server
+  abandon(groupId: string, reason: string): void;
+  // whether a failed request may succeed when it is tried again later
+  isRetryable(error: unknown): boolean;
+  // milliseconds a state is kept before it is too old to still be sent
+  maxAge: number;
+  // milliseconds before the first replay, doubled after every failed one up to the maximum
+  retryDelay: number;
+  maxRetryDelay: number;
+  log: Logging;
+};
+
+// A state of a group that could not be sent yet
+type OfflineEntry = {
+  update: TuoLifeGroupUpdate;
+  queuedAt: number;
+  attempts: number;
+};
+
+/**
+ * TuoLife Offline Queue
+ * Keeps the last state of every group that could not be sent because the cloud was unreachable,
+ * in a JSON file in Homebridge's storage path so it survives restarts.
+ * The states are replayed with backoff until they reach the server or are too old to still be relevant.
+ */
+export class TuoLifeOfflineQueue {
+  private entries: Record<string, OfflineEntry> = {};
+  private retryDelay: number;
+  private timer?: NodeJS.Timeout;
+  private replaying = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly file: string,
+    private readonly options: TuoLifeOfflineQueueOptions,
+  ) {
+    this.retryDelay = options.retryDelay;
+  }
+
+  // Whether a state of the group is waiting to be replayed
+  has(groupId: string): boolean {
+    return groupId in this.entries;
+  }
+
+  // Keep the state of a group for a replay, replacing the one kept before
+  add(update: TuoLifeGroupUpdate) {
+    this.entries[update.groupId] = { update, queuedAt: Date.now(), attempts: 0 };
+    this.save();
+    this.schedule();
+  }
+
+  // Forget the state of a group, a newer one is on its way
+  remove(groupId: string) {
+    if (this.has(groupId)) {
+      delete this.entries[groupId];
+      this.save();
+    }
+  }
+
+  /**
+   * Send the kept states one after another. Stops at the first one the cloud can't be reached for
+   * and tries again later, states the server refuses or that are too old are dropped.
+   */
+  async replay() {
+    if (this.replaying) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.replaying = true;
+    let failed = false;
+
+    try {
+      for (const [groupId, entry] of Object.entries(this.entries)) {
+        const age = Date.now() - entry.queuedAt;
+        if (age > this.options.maxAge) {
+          delete this.entries[groupId];
+          this.options.abandon(groupId, `it was queued ${Math.round(age / 60000)} minutes ago`);
+          continue;
+        }
+
+        try {
+          await this.options.send(entry.update, () => this.entries[groupId] === entry);
+        } catch (error) {
+          if (this.entries[groupId] !== entry) {
+            // replaced while it was sent, the newer state is tried next time
+            continue;
+          }
+          if (!this.options.isRetryable(error)) {
+            delete this.entries[groupId];
+            this.options.abandon(groupId, `the server refused it: ${(error as Error)?.message ?? error}`);
+            continue;
+          }
+          entry.attempts++;
+          failed = true;
+          break;
+        }
+
+        if (this.entries[groupId] === entry) {
+          delete this.entries[groupId];
+          this.options.log.info(`Replayed pending update for group ${groupId} after ${entry.attempts + 1} attempts`);
+          this.options.confirm(entry.update);
+        }
+      }
+    } finally {
+      this.replaying = false;
+      this.save();
+    }
+
+    this.retryDelay = failed ? Math.min(this.options.maxRetryDelay, this.retryDelay * 2) : this.options.retryDelay;
+    this.schedule();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  // Read the states kept before the last restart
+  async load() {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      if (typeof stored === 'object' && stored !== null && !Array.isArray(stored)) {
+        this.entries = stored;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.options.log.warn('Could not read pending TuoLife updates:', (error as Error).message);
+      }
+    }
+    const count = Object.keys(this.entries).length;
+    if (count > 0) {
+      this.options.log.info(`Found ${count} pending updates from before the restart`);
+      this.schedule();
+    }
+  }
+
+  private schedule() {
+    if (this.timer || this.replaying || Object.keys(this.entries).length === 0) {
+      return;
+    }
+    this.options.log.debug(`Replaying pending updates in ${this.retryDelay / 1000} s`);
+    this.timer = setTimeout(() => this.replay(), this.retryDelay);
+  }
+
+  // Writes are chained, so an older state can never overwrite a newer one
+  private save() {
+    const content = JSON.stringify(this.entries, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.writeFile(this.file, content);
+      } catch (error) {
+        this.options.log.warn('Could not save pending TuoLife updates:', (error as Error).message);
+      }
+    });
+  }
+}
@@ -1,8 +1,86 @@
-import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
+import type {
+  AdaptiveLightingController, API, Characteristic, DynamicPlatformPlugin, HapStatusError, Logging, PlatformAccessory, PlatformConfig, Service,
+} from 'homebridge';
 
+import path from 'node:path';
+
+import { TuoLifeAccount, TuoLifeAccountOptions, isCloudFailure } from './account.js';
+import { COLOR_CHANNELS, hueSaturationToChannels } from './color.js';
+import { TuoLifeCommandQueue } from './commandqueue.js';
+import { TuoLifeEffectEngine, parseEffects } from './effects.js';
+import { TuoLifeHttpApi } from './httpapi.js';
+import { ACCESSORY_CONTEXT_VERSION, migrateAccessoryContext } from './migrations.js';
+import { TuoLifeSceneStore } from './scenestore.js';
+import { TuoLifeSleepTimers } from './sleeptimer.js';
 import { TuoLifeBulbAccessory } from './tuolifebulb.js';
-import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
-import { TuoLifeBulbDevice, TuolifeRoom } from './types.js';
+import { TuoLifeRoomAccessory, createRoomState } from './tuoliferoom.js';
+import { TuoLifeScenesAccessory } from './tuolifescenes.js';
+import { TuoLifeUsageHistory, UsageCharacteristics, UsageKind, createUsageCharacteristics } from './usagehistory.js';
+import {
+  DEFAULT_BULB_WATTAGE,
+  DEFAULT_COMMAND_DEBOUNCE,
+  DEFAULT_EFFECT_STEP_INTERVAL,
+  DEFAULT_MIN_COMMAND_INTERVAL,
+  DEFAULT_MODES,
+  DEFAULT_OFFLINE_QUEUE_MAX_AGE,
+  DEFAULT_POWER_ON_BRIGHTNESS,
+  DEFAULT_REMOVE_MISSING_AFTER,
+  DEFAULT_SYNC_INTERVAL,
+  DEFAULT_USAGE_RETENTION_DAYS,
+  MAX_SLEEP_TIMER_DURATION,
+  MIN_SYNC_INTERVAL,
+  PLATFORM_NAME, PLUGIN_NAME, SCENES_FILE_NAME,
+  SLEEP_TIMER_STEP_INTERVAL,
+  SLEEP_TIMERS_FILE_NAME,
+  SYNC_GRACE_PERIOD,
+  USAGE_HISTORY_FILE_NAME } from './settings.js';
+import {
+  AccessoryOverride,
+  MissingState,
+  PowerOnBehavior,
+  SleepTimerChangeBehavior,
+  TuoLifeBulbDevice,
+  TuoLifeEffect,
+  TuoLifeGroupUpdate,
+  TuoLifeLightState,
+  TuoLifeMode,
+  TuoLifeScene,
+  TuoLifeSleepTimerConfig,
+  TuoLifeUsageConfig,
+  TuolifeRoom,
+  deviceModes,
+} from './types.js';
+
+const POWER_ON_BEHAVIORS: PowerOnBehavior[] = ['restore', 'default', 'roomDefault'];
+const SLEEP_TIMER_CHANGE_BEHAVIORS: SleepTimerChangeBehavior[] = ['keep', 'restart', 'cancel'];
+
+// Settings of bulbs and rooms without an entry in config
+const DEFAULT_OVERRIDE: AccessoryOverride = {
+  exclude: false, lightbulb: true, modeSwitches: true, color: true, channels: false, minBrightness: 0,
+};
+
+// Keys allowed in the entries of the devices and rooms lists in config
+const OVERRIDE_KEYS = {
+  bulb: ['bulbId', 'account', 'exclude', 'name', 'lightbulb', 'modeSwitches', 'color', 'channels', 'powerOn', 'minBrightness', 'sleepTimer'],
+  room: ['groupId', 'account', 'exclude', 'name', 'color', 'powerOn', 'minBrightness', 'sleepTimer'],
+};
+
+// Id of a listed account from its label, it namespaces the UUIDs and files of the account
+const toAccountId = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Key of the settings of a bulb or room of one account, settings without an account apply to every account
+const overrideKey = (id: string, accountId?: string) => accountId === undefined ? id : `${accountId}:${id}`;
+
+// Where a group update comes from, only manual ones end effects and start or cancel sleep timers
+export type UpdateOrigin = 'manual' | 'effect' | 'sleepTimer' | 'adaptiveLighting';
+
+// Names of the accessories a reconcile with the server changed, for the summary in the log
+type AccessoryChanges = {
+  added: string[];
+  renamed: string[];
+  updated: string[];
+  removed: string[];
+};
 
 /**
  * HomebridgePlatform
@@ -15,10 +93,59 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
 
   // this is used to track restored cached accessories
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
-  public readonly discoveredCacheUUIDs: string[] = [];
-  public readonly apiKey: string;
-  private isDiscoveryInProgress = false;
-  public readonly syncInterval: NodeJS.Timeout;
+  // cached accessories whose context could not be migrated, removed once Homebridge finished launching
+  private readonly invalidAccessories: PlatformAccessory[] = [];
+  // accessory handlers by accessory UUID
+  private readonly bulbHandlers: Map<string, TuoLifeBulbAccessory> = new Map();
+  private readonly roomHandlers: Map<string, TuoLifeRoomAccessory> = new Map();
+  // adaptive lighting controllers by accessory UUID, HAP allows only one per accessory
+  public readonly adaptiveLightingControllers: Map<string, AdaptiveLightingController> = new Map();
+  // TuoLife accounts, each with its own login, sync loop and offline queue
+  private readonly accounts: TuoLifeAccount[];
+  // account every known group belongs to, by groupId
+  private readonly groupAccounts: Map<string, TuoLifeAccount> = new Map();
+  // last rooms of every account by account id, the config is checked once all accounts answered
+  private readonly accountRooms: Map<string, TuolifeRoom[]> = new Map();
+  // outgoing group commands, debounced and rate limited
+  private readonly commandQueue: TuoLifeCommandQueue;
+  // last state of every group the server confirmed by groupId, restored when a command fails
+  private readonly confirmedGroupStates: Map<string, TuoLifeGroupUpdate> = new Map();
+  // whether HomeKit last showed a group on, and when it was last changed from HomeKit, by groupId
+  private readonly groupsOn: Map<string, boolean> = new Map();
+  private readonly groupsChangedAt: Map<string, number> = new Map();
+  // TuoLife modes exposed as switches on every bulb
+  public readonly modes: TuoLifeMode[];
+  // effects exposed as switches on every bulb and room
+  public readonly effects: TuoLifeEffect[];
+  private readonly effectEngine: TuoLifeEffectEngine;
+  // scenes exposed as switches on a separate accessory, with a save switch for each unless turned off
+  public readonly scenes: TuoLifeScene[];
+  public readonly sceneSaveSwitches: boolean;
+  private readonly sceneStore: TuoLifeSceneStore;
+  private readonly httpApi?: TuoLifeHttpApi;
+  private scenesHandler?: TuoLifeScenesAccessory;
+  // lights turned off a set time after they were turned on, the timers survive a restart
+  public readonly sleepTimer: TuoLifeSleepTimerConfig;
+  public readonly sleepTimers: TuoLifeSleepTimers;
+  // on-time, brightness and modes of every light over the last days, only while turned on in config
+  public readonly usage: TuoLifeUsageConfig;
+  public readonly usageHistory?: TuoLifeUsageHistory;
+  private usageCharacteristics?: UsageCharacteristics;
+  // which kinds of accessories are exposed to HomeKit
+  public readonly exposeRooms: boolean;
+  public readonly exposeBulbs: boolean;
+  // what lights do when turned on
+  private readonly powerOn: PowerOnBehavior;
+  private readonly powerOnDefault: TuoLifeLightState;
+  // settings of single bulbs by bulbId and rooms by groupId, prefixed with the account id when set for one account
+  private readonly bulbOverrides: Map<string, AccessoryOverride>;
+  private readonly roomOverrides: Map<string, AccessoryOverride>;
+  // config entries are checked against the accounts once, after the first successful discovery of all of them
+  private overridesChecked = false;
+  // default state of every room as set in the TuoLife app, by groupId
+  private readonly roomDefaults: Map<string, TuoLifeLightState> = new Map();
+  // add a StatusFault characteristic that reports unreachable lights
+  public readonly statusFault: boolean;
 
   constructor(
     public readonly log: Logging,
@@ -26,19 +153,97 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
     public readonly api: API,
   ) {
 
-    // set sync interval
-    this.syncInterval = setInterval(() => this.syncBulbsWithServer(), 180000);
-
     this.Service = api.hap.Service;
     this.Characteristic = api.hap.Characteristic;
 
-    // Load API key from config
-    this.apiKey = config.apiKey || '';
-    if (!this.apiKey) {
-      this.log.error('No API key provided in config. Plugin may not function correctly.');
+    // One account at the top level of the config and any number in the accounts list
+    this.accounts = this.parseAccounts(config);
+
+    // Queue outgoing commands per group, configured in milliseconds
+    const minCommandInterval = config.minCommandInterval >= 0 ? config.minCommandInterval : DEFAULT_MIN_COMMAND_INTERVAL;
+    this.commandQueue = new TuoLifeCommandQueue({
+      send: update => this.getAccount(update.groupId).send(update),
+      confirm: update => this.confirmGroupState(update),
+      rollback: groupId => this.rollbackGroupState(groupId),
+      keep: (update, error) => this.keepForReplay(update, error),
+      debounce: config.commandDebounce >= 0 ? config.commandDebounce : DEFAULT_COMMAND_DEBOUNCE,
+      minInterval: minCommandInterval,
+      log: this.log,
+    });
+
+    // Effects send their steps through the command queue, the step interval is configured in seconds
+    this.effects = parseEffects(config.effects, this.log);
+    this.effectEngine = new TuoLifeEffectEngine({
+      send: update => this.sendBulbUpdateToServer(update, 'effect'),
+      changed: groupId => this.updateEffectSwitches(groupId),
+      stepInterval: (config.effectStepInterval > 0 ? config.effectStepInterval : DEFAULT_EFFECT_STEP_INTERVAL) * 1000,
+      minStepInterval: minCommandInterval,
+      log: this.log,
+    });
+
+    // Load modes from config, fall back to the known TuoLife modes
+    this.modes = this.parseModes(config.modes);
+    this.log.debug('Modes:', this.modes.map(mode => mode.id).join(', '));
+
+    // Scenes are saved in the storage path, next to the login token
+    this.scenes = this.parseScenes(config.scenes);
+    this.sceneSaveSwitches = config.sceneSaveSwitches !== false;
+    this.sceneStore = new TuoLifeSceneStore(path.join(this.api.user.storagePath(), SCENES_FILE_NAME), this.log);
+
+    // Sleep timers send their fade steps and the final off like effects do, running timers are kept next to the scenes
+    this.sleepTimer = this.parseSleepTimer(config.sleepTimer);
+    this.sleepTimers = new TuoLifeSleepTimers(path.join(this.api.user.storagePath(), SLEEP_TIMERS_FILE_NAME), {
+      turnOff: async groupId => {
+        this.effectEngine.stop(groupId, 'the sleep timer ran out');
+        await this.sendBulbUpdateToServer({ ...this.getSleepTimerState(groupId), modeId: deviceModes.off }, 'sleepTimer');
+      },
+      dim: (groupId, brightness) => this.sendBulbUpdateToServer({ ...this.getSleepTimerState(groupId), brightness }, 'sleepTimer'),
+      getBrightness: groupId => this.getGroupStates()[groupId]?.brightness ?? 100,
+      changed: groupId => this.updateSleepTimerSwitches(groupId),
+      stepInterval: SLEEP_TIMER_STEP_INTERVAL * 1000,
+      log: this.log,
+    });
+
+    // The usage history is kept next to the scenes, the retention is configured in days
+    this.usage = this.parseUsage(config.usageHistory);
+    if (this.usage.enabled) {
+      this.usageHistory = new TuoLifeUsageHistory(path.join(this.api.user.storagePath(), USAGE_HISTORY_FILE_NAME), {
+        retention: this.usage.retention,
+        getWattage: (kind, id) => this.getUsageWattage(kind, id),
+        log: this.log,
+      });
+    }
+
+    // Rooms and bulbs are both exposed unless turned off in config
+    this.exposeRooms = config.exposeRooms !== false;
+    this.exposeBulbs = config.exposeBulbs !== false;
+    if (!this.exposeRooms && !this.exposeBulbs) {
+      this.log.warn('Both room and bulb accessories are turned off in config, no accessories will be exposed.');
+    }
+    this.statusFault = config.statusFault === true;
+
+    // Lights restore their last state when turned on, unless configured otherwise
+    this.powerOn = this.parsePowerOnBehavior(config.powerOn, 'all lights') ?? 'restore';
+    this.powerOnDefault = this.parsePowerOnDefault(config.powerOnDefault);
+
+    // Settings of single bulbs and rooms override the ones above
+    this.bulbOverrides = this.parseOverrides(config.devices, 'bulb');
+    this.roomOverrides = this.parseOverrides(config.rooms, 'room');
+
+    // The local HTTP API is only started when a port and a token are configured
+    const httpApiConfig = config.httpApi ?? {};
+    if (httpApiConfig.port) {
+      if (typeof httpApiConfig.token === 'string' && httpApiConfig.token.trim()) {
+        this.httpApi = new TuoLifeHttpApi(this, {
+          port: Number(httpApiConfig.port),
+          host: httpApiConfig.host || undefined,
+          token: httpApiConfig.token.trim(),
+          log: this.log,
+        });
+      } else {
+        this.log.error('The HTTP API needs a token in config, it will not be started.');
+      }
     }
-    this.log.debug('API key:', this.apiKey);
-  
 
     this.log.debug('Finished initializing platform:', this.config.name);
 
@@ -48,8 +253,27 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback');
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      if (this.invalidAccessories.length > 0) {
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, this.invalidAccessories);
+      }
+      this.configureScenes();
+      void this.sleepTimers.load();
+      void this.usageHistory?.load();
+      this.httpApi?.start();
+      this.removeOrphanedAccessories();
+      // run the method to discover / register your devices as accessories, every account on its own
+      for (const account of this.accounts) {
+        account.start().catch(error => this.log.error(`Could not start the TuoLife account${account.describe()}:`, error));
+      }
+    });
+
+    // stop polling the TuoLife server when Homebridge shuts down
+    this.api.on('shutdown', () => {
+      this.accounts.forEach(account => account.stop());
+      this.effectEngine.stopAll();
+      this.sleepTimers.stopAll();
+      this.usageHistory?.flush();
+      this.httpApi?.stop();
     });
   }
 
@@ -59,32 +283,175 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
    */
   configureAccessory(accessory: PlatformAccessory) {
     this.log.info('Loading accessory from cache:', accessory.displayName);
+    // contexts cached by older versions of the plugin are brought up to date, unusable ones are removed after launch
+    const version = accessory.context.schemaVersion ?? 0;
+    if (!migrateAccessoryContext(accessory.context, message => this.log.warn(`Cached accessory ${accessory.displayName}:`, message))) {
+      this.log.warn('Removing cached accessory, its data can not be used anymore:', accessory.displayName);
+      this.invalidAccessories.push(accessory);
+      return;
+    }
+    if (accessory.context.schemaVersion !== version) {
+      this.log.debug(`Migrated cached accessory ${accessory.displayName} from context version ${version} to ${accessory.context.schemaVersion}`);
+    }
     // add the restored accessory to the accessories cache, so we can track if it has already been registered
     // get modeId and brightness from TuoLife API
     this.accessories.set(accessory.UUID, accessory);
-    this.log.info('Accessory brightness:', accessory.context.device.brightness);
-    this.log.info('Accessory state:', accessory.context.device.modeId);
+    const state = accessory.context.room ?? accessory.context.device;
+    const account = this.getAccessoryAccount(accessory);
+    if (state && account) {
+      // commands can be sent before the first discovery of the account finished
+      this.groupAccounts.set(state.groupId, account);
+    }
+    if (state) {
+      this.groupsOn.set(state.groupId, state.modeId !== deviceModes.off);
+      this.log.info('Accessory brightness:', state.brightness);
+      this.log.info('Accessory state:', state.modeId);
+    }
+    if (accessory.context.device) {
+      this.log.info('Accessory adaptive lighting:', accessory.context.adaptiveLighting ? 'active' : 'inactive');
+    }
   }
 
   /**
-   * This is an example method showing how to register discovered accessories.
-   * Accessories must only be registered once, previously created accessories
-   * must not be registered again to prevent "duplicate UUID" errors.
+   * Bring the accessories in line with a successful server response: add new rooms and bulbs,
+   * pick up renames and new device information, apply the current state and remove what is gone.
+   * Used by the initial discovery and every sync, so changes in the TuoLife app show up without a restart.
+   * Only the accessories of the given account are touched.
    */
-  discoverDevices() {
+  reconcileAccessories(account: TuoLifeAccount, rooms: TuolifeRoom[]) {
+    const changes: AccessoryChanges = { added: [], renamed: [], updated: [], removed: [] };
+    for (const room of rooms) {
+      this.groupAccounts.set(room.id, account);
+      this.confirmedGroupStates.set(room.id, createRoomState(room));
+      this.syncSleepTimer(room);
+      const roomDefault = this.parseRoomDefault(room);
+      if (roomDefault) {
+        this.roomDefaults.set(room.id, roomDefault);
+      } else {
+        this.roomDefaults.delete(room.id);
+      }
+    }
+
+    this.accountRooms.set(account.id, rooms);
+    if (!this.overridesChecked && this.accountRooms.size === this.accounts.length) {
+      this.overridesChecked = true;
+      this.checkOverrides();
+    }
+
+    if (this.exposeRooms) {
+      this.registerRooms(account, rooms, changes);
+    }
+    if (this.exposeBulbs) {
+      this.registerDevices(account, this.getAllDevicesFromRooms(rooms), changes);
+    }
+    this.removeStaleAccessories(account, rooms, changes);
+    if (this.usageHistory) {
+      for (const handler of [...this.roomHandlers.values(), ...this.bulbHandlers.values()]) {
+        handler.recordUsage();
+      }
+    }
 
-    if (this.isDiscoveryInProgress) {
-      this.log.debug('Device discovery already in progress, skipping...');
+    const summary = Object.entries(changes)
+      .filter(([, names]) => names.length > 0)
+      .map(([change, names]) => `${change}: ${names.join(', ')}`);
+    if (summary.length > 0) {
+      this.log.info(`TuoLife accessories changed${account.describe()} -`, summary.join('; '));
+    }
+  }
+
+  // Record renamed or otherwise changed accessory information and persist it in the accessory cache
+  private recordInfoChanges(accessory: PlatformAccessory, oldName: string, changed: string[], changes: AccessoryChanges) {
+    if (changed.length === 0) {
       return;
     }
-    this.isDiscoveryInProgress = true;
-    // Discover devices from TuoLife API
-    this.getDevicesAndStatesFromServer().then(devices => {
-      this.registerDevices(devices);
-    });
-    
+    if (accessory.displayName !== oldName) {
+      changes.renamed.push(`${oldName} -> ${accessory.displayName}`);
+    } else {
+      changes.updated.push(`${accessory.displayName} (${changed.join(', ')})`);
+    }
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
+  // Register the scenes accessory when scenes are configured, it doesn't need the TuoLife server
+  private configureScenes() {
+    const uuid = this.scenesUUID();
+    let accessory = this.accessories.get(uuid);
+    if (this.scenes.length === 0) {
+      if (accessory) {
+        this.log.info('Removing scenes accessory, no scenes are configured');
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.delete(uuid);
+      }
+      return;
+    }
+    if (!accessory) {
+      this.log.info('Adding scenes accessory');
+      accessory = new this.api.platformAccessory('TuoLife Scenes', uuid);
+      accessory.context.scenes = true;
+      accessory.context.schemaVersion = ACCESSORY_CONTEXT_VERSION;
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.set(uuid, accessory);
+    }
+    this.scenesHandler = new TuoLifeScenesAccessory(this, accessory, this.sceneStore);
+  }
+
+  // Set up handlers for the cached accessories of an account from their cached state, until its discovery succeeds
+  restoreCachedHandlers(account: TuoLifeAccount) {
+    for (const [uuid, accessory] of this.accessories) {
+      if (this.getAccessoryAccount(accessory) !== account) {
+        continue;
+      }
+      if (accessory.context.room && !this.roomHandlers.has(uuid)) {
+        this.roomHandlers.set(uuid, new TuoLifeRoomAccessory(this, accessory));
+      } else if (accessory.context.device && !this.bulbHandlers.has(uuid)) {
+        this.bulbHandlers.set(uuid, new TuoLifeBulbAccessory(this, accessory));
+      }
+    }
+  }
+
+  registerRooms(account: TuoLifeAccount, rooms: Array<TuolifeRoom>, changes: AccessoryChanges) {
+    this.log.debug('Registering rooms:', rooms.length);
+
+    for (const room of rooms) {
+      if (!room.id) {
+        this.log.error('Room missing id:', room);
+        continue;
+      }
+
+      const uuid = this.roomUUID(account, room.id);
+      const roomState = createRoomState(room);
+      const override = this.getRoomOverride(room.id, account.id);
+      if (override.exclude) {
+        this.log.debug('Room is excluded in config:', roomState.groupName);
+        continue;
+      }
+      const existingAccessory = this.accessories.get(uuid);
+
+      if (existingAccessory) {
+        let handler = this.roomHandlers.get(uuid);
+        if (!handler) {
+          this.log.info('Restoring existing room from cache:', existingAccessory.displayName);
+          handler = new TuoLifeRoomAccessory(this, existingAccessory);
+          this.roomHandlers.set(uuid, handler);
+        }
+        const oldName = existingAccessory.displayName;
+        this.recordInfoChanges(existingAccessory, oldName, handler.updateInfo(roomState), changes);
+        handler.updateFromServer(roomState);
+      } else {
+        this.log.info('Adding new room:', override.name ?? roomState.groupName);
+        const accessory = new this.api.platformAccessory(override.name ?? roomState.groupName, uuid);
+        accessory.context.room = roomState;
+        accessory.context.account = account.id;
+        accessory.context.schemaVersion = ACCESSORY_CONTEXT_VERSION;
+        this.roomHandlers.set(uuid, new TuoLifeRoomAccessory(this, accessory));
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.set(uuid, accessory);
+        changes.added.push(override.name ?? roomState.groupName);
+      }
+    }
   }
-  registerDevices(devices: Array<TuoLifeBulbDevice>) {
+
+  registerDevices(account: TuoLifeAccount, devices: Array<TuoLifeBulbDevice>, changes: AccessoryChanges) {
     this.log.debug('Registering devices:', devices.length);
     
     for (const device of devices) {
@@ -97,29 +464,32 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
       }
 
       // Convert bulbId to string to ensure valid input for UUID generation
-      const uuid = this.api.hap.uuid.generate(device.bulbId.toString());
+      const uuid = this.bulbUUID(account, device.bulbId);
+      const override = this.getBulbOverride(device.bulbId, account.id);
+      if (override.exclude) {
+        this.log.debug('Device is excluded in config:', device.nickname);
+        continue;
+      }
       
       // see if an accessory with the same uuid has already been registered and restored from
       // the cached devices we stored in the `configureAccessory` method above
       const existingAccessory = this.accessories.get(uuid);
 
       if (existingAccessory) {
-        // the accessory already exists
-        this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-        
-        // preserve brightness update modeId based on device.modeId
-        
-        //existingAccessory.context.device.brightness = Number(device.brightness);
-        //existingAccessory.context.device.on = device.modeId !== 'off';
-
-        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. e.g.:
-        this.log.debug('Updating accessory context:', device);
-        existingAccessory.context.device = device;
-        //this.api.updatePlatformAccessories([existingAccessory]);
+        // the accessory already exists, create the handler for the restored accessory unless it already has one
+        let handler = this.bulbHandlers.get(uuid);
+        if (!handler) {
+          this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+          handler = new TuoLifeBulbAccessory(this, existingAccessory);
+          this.bulbHandlers.set(uuid, handler);
+        }
 
-        // create the accessory handler for the restored accessory
-        // this is imported from `platformAccessory.ts`
-        new TuoLifeBulbAccessory(this, existingAccessory);
+        // renames and new device information change the accessory.context, so they are persisted with `api.updatePlatformAccessories`
+        this.log.debug('Updating accessory context:', device);
+        const oldName = existingAccessory.displayName;
+        this.recordInfoChanges(existingAccessory, oldName, handler.updateInfo(device), changes);
+        handler.updateAvailability(device.isAvailable);
+        handler.updateFromServer(device);
 
         // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, e.g.:
         // remove platform accessories when no longer present
@@ -127,169 +497,746 @@ export class TuoLifeHomebridgePlatform implements DynamicPlatformPlugin {
         // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
       } else {
         // the accessory does not yet exist, so we need to create it
-        this.log.info('Adding new accessory:', device.nickname);
+        this.log.info('Adding new accessory:', override.name ?? device.nickname);
 
         // create a new accessory
-        const accessory = new this.api.platformAccessory(device.nickname, uuid);
+        const accessory = new this.api.platformAccessory(override.name ?? device.nickname, uuid);
 
         // store a copy of the device object in the `accessory.context`
         // the `context` property can be used to store any data about the accessory you may need
         accessory.context.device = device;
+        accessory.context.account = account.id;
+        accessory.context.schemaVersion = ACCESSORY_CONTEXT_VERSION;
 
         // create the accessory handler for the newly create accessory
         // this is imported from `platformAccessory.ts`
-        new TuoLifeBulbAccessory(this, accessory);
+        this.bulbHandlers.set(uuid, new TuoLifeBulbAccessory(this, accessory));
 
         // link the accessory to your platform
         this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.accessories.set(uuid, accessory);
+        changes.added.push(override.name ?? device.nickname);
       }
-
-      // push into discoveredCacheUUIDs
-      this.discoveredCacheUUIDs.push(uuid);
     }
+  }
+
+  /**
+   * Remove cached accessories that are not part of a successful server response.
+   * Accessories turned off in config go right away, accessories missing from the account
+   * only after several responses in a row or the configured grace period, so a hiccup
+   * on the TuoLife side doesn't take the house out of HomeKit.
+   */
+  removeStaleAccessories(account: TuoLifeAccount, rooms: TuolifeRoom[], changes: AccessoryChanges) {
+    const devices = this.getAllDevicesFromRooms(rooms);
+    const exposed = new Set([
+      ...(this.exposeRooms
+        ? rooms.filter(room => !this.getRoomOverride(room.id, account.id).exclude).map(room => this.roomUUID(account, room.id))
+        : []),
+      ...(this.exposeBulbs
+        ? devices.filter(device => !this.getBulbOverride(device.bulbId, account.id).exclude).map(device => this.bulbUUID(account, device.bulbId))
+        : []),
+    ]);
+    const known = new Set([
+      ...rooms.map(room => this.roomUUID(account, room.id)),
+      ...devices.map(device => this.bulbUUID(account, device.bulbId)),
+    ]);
 
-    // you can also deal with accessories from the cache which are no longer present by removing them from Homebridge
-    // for example, if your plugin logs into a cloud account to retrieve a device list, and a user has previously removed a device
-    // from this cloud account, then this device will no longer be present in the device list but will still be in the Homebridge cache
     for (const [uuid, accessory] of this.accessories) {
-      if (!this.discoveredCacheUUIDs.includes(uuid)) {
-        this.log.info('Removing existing accessory from cache:', accessory.displayName);
-        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      // accessories of other accounts and the scenes accessory are not part of this response
+      if (this.getAccessoryAccount(accessory) !== account) {
+        continue;
+      }
+      if (exposed.has(uuid)) {
+        if (accessory.context.missing) {
+          this.log.info('Accessory is back in the TuoLife account:', accessory.displayName);
+          delete accessory.context.missing;
+          this.api.updatePlatformAccessories([accessory]);
+        }
+        continue;
+      }
+
+      if (!known.has(uuid)) {
+        const missing: MissingState = accessory.context.missing ?? { count: 0, since: Date.now() };
+        missing.count++;
+        accessory.context.missing = missing;
+        const graceExpired = account.removeMissingAfterHours > 0
+          && Date.now() - missing.since >= account.removeMissingAfterHours * 3600000;
+        if (missing.count < account.removeMissingAfter && !graceExpired) {
+          this.log.warn(`${accessory.displayName} is missing from the TuoLife account (${missing.count}/${account.removeMissingAfter}),`
+            + ' keeping it for now');
+          this.api.updatePlatformAccessories([accessory]);
+          continue;
+        }
       }
+
+      this.log.info('Removing existing accessory from cache:', accessory.displayName);
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.delete(uuid);
+      this.bulbHandlers.delete(uuid);
+      this.roomHandlers.delete(uuid);
+      this.adaptiveLightingControllers.delete(uuid);
+      changes.removed.push(accessory.displayName);
     }
-    
   }
 
-  async getDevicesAndStatesFromServer(): Promise<TuoLifeBulbDevice[]> {
-    try {
-      // Get state from server
-      const response = await fetch('https://mobileapi.thetuolife.com/group/roomsByUser', {
-        method: 'GET',
-        headers: {
-          'Authorization': this.apiKey,
-        },
-      });
-      const data = await response.json();
-      
-      // Check if data is an array
-      if (!Array.isArray(data)) {
-        this.log.error('Unexpected API response format - expected array of rooms');
-        this.log.error('Response:', data);
-        return [];
+  // Account of a cached bulb or room, undefined for the scenes accessory and accessories of removed accounts
+  private getAccessoryAccount(accessory: PlatformAccessory): TuoLifeAccount | undefined {
+    if (!accessory.context.device && !accessory.context.room) {
+      return undefined;
+    }
+    return this.accounts.find(account => account.id === (accessory.context.account ?? ''));
+  }
+
+  // One of the listed accounts by its label, config entries and the HTTP API name accounts with it
+  findListedAccount(label: string): TuoLifeAccount | undefined {
+    return this.accounts.find(known => known.label !== undefined && known.id === toAccountId(label));
+  }
+
+  // Label of an account by its id, undefined for the account at the top of the config
+  getAccountLabel(accountId: string): string | undefined {
+    return this.accounts.find(known => known.id === accountId)?.label;
+  }
+
+  // Account a group belongs to, known from the last response of every account or the accessory cache
+  private getAccount(groupId: string): TuoLifeAccount {
+    const account = this.groupAccounts.get(groupId);
+    if (!account) {
+      throw new Error(`Group ${groupId} does not belong to any configured TuoLife account`);
+    }
+    return account;
+  }
+
+  // Remove cached bulbs and rooms of accounts that are no longer in the config
+  private removeOrphanedAccessories() {
+    const orphaned = [...this.accessories.values()]
+      .filter(accessory => (accessory.context.device || accessory.context.room) && !this.getAccessoryAccount(accessory));
+    for (const accessory of orphaned) {
+      this.log.info(`Removing ${accessory.displayName}, its TuoLife account ${accessory.context.account} is no longer configured`);
+      this.accessories.delete(accessory.UUID);
+    }
+    if (orphaned.length > 0) {
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, orphaned);
+    }
+  }
+
+  // Refresh the availability of the accessories of an account after its cloud became reachable or unreachable
+  updateAvailability(account: TuoLifeAccount) {
+    for (const handler of [...this.bulbHandlers.values(), ...this.roomHandlers.values()]) {
+      if (this.groupAccounts.get(handler.getGroupId()) === account) {
+        handler.updateAvailability();
       }
+    }
+  }
 
-      // Type guard to ensure data is TuolifeRoom[]
-      const rooms = data as TuolifeRoom[];
-      
-      // combine all rooms.devices into one array
-      // map bulb_ID to bulbId, 
-      this.log.debug('getDevicesAndStatesFromServer:', rooms);
-      const allDevices: TuoLifeBulbDevice[] = this.getAllDevicesFromRooms(rooms);
+  // Whether the cloud of the account a group belongs to can be reached
+  isCloudReachable(groupId: string): boolean {
+    return this.groupAccounts.get(groupId)?.isReachable() ?? false;
+  }
+
+  // The error HomeKit shows as "No Response"
+  communicationFailure(): HapStatusError {
+    return new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
+  // rooms get their own namespace so a group id can never collide with a bulb id
+  private roomUUID(account: TuoLifeAccount, roomId: string): string {
+    return account.uuid(`room-${roomId}`);
+  }
+
+  getBulbHandlers(): TuoLifeBulbAccessory[] {
+    return [...this.bulbHandlers.values()];
+  }
+
+  getRoomHandlers(): TuoLifeRoomAccessory[] {
+    return [...this.roomHandlers.values()];
+  }
+
+  private scenesUUID(): string {
+    return this.api.hap.uuid.generate('tuolife-scenes');
+  }
+
+  private bulbUUID(account: TuoLifeAccount, bulbId: string): string {
+    return account.uuid(bulbId.toString());
+  }
 
-      return allDevices;
-    } catch (error) {
-      this.log.error('Failed to fetch devices from server:', error);
-      return [];
+  // Send bulb update to server, the TuoLife API applies it to every bulb of the group
+  public async sendBulbUpdateToServer(bulb: TuoLifeGroupUpdate, origin: UpdateOrigin = 'manual'): Promise<void> {
+    // a change made in HomeKit ends the effect running on the group, effects and sleep timers end when the cloud is gone
+    if (origin === 'manual') {
+      this.effectEngine.stop(bulb.groupId, 'the light was changed');
+      this.updateSleepTimer(bulb);
+    } else if (!this.isCloudReachable(bulb.groupId)) {
+      throw this.communicationFailure();
     }
+    this.applyGroupState(bulb, origin);
+    // the new state replaces one still waiting for the cloud
+    this.groupAccounts.get(bulb.groupId)?.offlineQueue?.remove(bulb.groupId);
+
+    // Queue the update for the server, errors are passed on to the accessory handler
+    await this.commandQueue.enqueue(bulb);
   }
 
-  // Get all bulbs from server and update on/off state, brightness
-  async syncBulbsWithServer() {
-    try {
-      // Get current devices from server
-      const devices = await this.getDevicesAndStatesFromServer();
-      
-      // Update each device in our accessories cache
-      for (const device of devices) {
-        const uuid = this.api.hap.uuid.generate(device.bulbId);
-        const accessory = this.accessories.get(uuid);
-        
-        if (accessory) {
-          // Update the context with new values
-          accessory.context.device.brightness = Number(device.brightness);
-          accessory.context.device.on = device.modeId !== 'off';
-          
-          // Get the bulb handler and trigger an update
-          const bulb = new TuoLifeBulbAccessory(this, accessory);
-          this.updateHomeKit(bulb); // Note: You'll need to implement this method in tuolifebulb.ts
-        }
+  // Current state of every group as shown in HomeKit, for saving a scene
+  getGroupStates(): Record<string, TuoLifeLightState> {
+    const groups: Record<string, TuoLifeLightState> = {};
+    for (const handler of [...this.roomHandlers.values(), ...this.bulbHandlers.values()]) {
+      groups[handler.getGroupId()] ??= handler.getLightState();
+    }
+    for (const [groupId, confirmed] of this.confirmedGroupStates) {
+      const { modeId, brightness, red, green, blue, violet, whiteColor } = confirmed;
+      groups[groupId] ??= { modeId, brightness, red, green, blue, violet, whiteColor };
+    }
+    return groups;
+  }
+
+  // Recall or save a configured scene, returns false when there is no such scene
+  async runScene(sceneId: string, action: 'recall' | 'save'): Promise<boolean> {
+    const scene = this.scenes.find(known => known.id === sceneId);
+    if (!scene || !this.scenesHandler) {
+      return false;
+    }
+    await (action === 'recall' ? this.scenesHandler.recall(scene) : this.scenesHandler.save(scene));
+    return true;
+  }
+
+  getRunningEffect(groupId: string): string | undefined {
+    return this.effectEngine.getRunningEffect(groupId);
+  }
+
+  // Start an effect on a group, adaptive lighting would fight over the color so it is turned off
+  startEffect(groupId: string, effect: TuoLifeEffect) {
+    this.disableAdaptiveLighting(groupId);
+    this.effectEngine.start(groupId, effect);
+  }
+
+  // Switch adaptive lighting off on every bulb of a group, e.g. when the color of its room was set by hand
+  disableAdaptiveLighting(groupId: string) {
+    for (const bulb of this.bulbHandlers.values()) {
+      if (bulb.getGroupId() === groupId) {
+        bulb.disableAdaptiveLighting();
       }
-    } catch (error) {
-      this.log.error('Failed to sync bulbs with server:', error);
     }
   }
-  // todo: tuolifebulb.ts updateHomeKit()
-  async updateHomeKit(aBulb: TuoLifeBulbAccessory) {
-    //this.log.debug('Updating HomeKit for bulb:', aBulb.bulb);
-    this.log.debug('Updating HomeKit for bulb:', aBulb.getBulbProperties());
-    aBulb.updateHomeKitCharacteristics();
+
+  stopEffect(groupId: string) {
+    this.effectEngine.stop(groupId);
   }
 
-  // Send bulb update to server
-  public async sendBulbUpdateToServer(bulb: TuoLifeBulbDevice): Promise<void> {
-    const bodyValue = JSON.stringify({
-      groupId: bulb.groupId,
-      modeId: bulb.modeId,
-      brightness: bulb.brightness,
-      red: bulb.red,
-      green: bulb.green,
-      blue: bulb.blue,
-      violet: bulb.violet,
-      whiteColor: bulb.whiteColor,
-    });
-    // Send update to server
-    fetch('https://mobileapi.thetuolife.com/mode/roomModeStart', {
-      method: 'POST',
-      headers: {
-        'Authorization': this.apiKey,
-      },
-      body: bodyValue,
-    });
+  private updateEffectSwitches(groupId: string) {
+    for (const handler of [...this.bulbHandlers.values(), ...this.roomHandlers.values()]) {
+      if (handler.getGroupId() === groupId) {
+        handler.updateEffectSwitches();
+      }
+    }
+  }
+
+  // Start the sleep timer of a group, fading out over the configured time
+  startSleepTimer(groupId: string, duration: number) {
+    this.sleepTimers.start(groupId, duration, this.sleepTimer.fade);
+  }
+
+  // Minutes of the sleep timer of a group in config, the room before its bulbs before the global setting
+  private getSleepTimerDuration(groupId: string): number {
+    const accountId = this.groupAccounts.get(groupId)?.id;
+    const room = (accountId !== undefined ? this.accountRooms.get(accountId) : undefined)?.find(known => known.id === groupId);
+    const bulbDuration = room?.devices.map(device => this.getBulbOverride(device.bulbId, accountId).sleepTimer)
+      .find(duration => duration !== undefined);
+    const minutes = this.getRoomOverride(groupId, accountId).sleepTimer ?? bulbDuration;
+    return minutes !== undefined ? minutes * 60000 : this.sleepTimer.duration;
+  }
+
+  // A change made in HomeKit: turning on starts the sleep timer, turning off cancels it, other changes follow the config
+  private updateSleepTimer(update: TuoLifeGroupUpdate) {
+    const { groupId } = update;
+    this.groupsChangedAt.set(groupId, Date.now());
+    if (update.modeId === deviceModes.off) {
+      this.sleepTimers.cancel(groupId, 'the light was turned off');
+      return;
+    }
+    if (!this.groupsOn.get(groupId)) {
+      const duration = this.getSleepTimerDuration(groupId);
+      if (duration > 0) {
+        this.startSleepTimer(groupId, duration);
+      }
+      return;
+    }
+    if (this.sleepTimer.onChange === 'restart') {
+      this.sleepTimers.restart(groupId);
+    } else if (this.sleepTimer.onChange === 'cancel') {
+      this.sleepTimers.cancel(groupId, 'the light was changed');
+    } else {
+      this.sleepTimers.restartFade(groupId);
+    }
   }
 
-  // Helper function to map raw device data to TuoLifeBulbDevice
-  private mapDevice(device: TuoLifeBulbDevice): TuoLifeBulbDevice {
-    this.log.debug('Raw device data:', device);
-    if (!device.bulbId) {
-      this.log.warn('Device missing bulb_ID:', device);
+  // Lights turned on or off elsewhere start or end their sleep timer, unless HomeKit changed them since the server last saw them
+  private syncSleepTimer(room: TuolifeRoom) {
+    const changedAt = this.groupsChangedAt.get(room.id) ?? 0;
+    if (Date.now() - changedAt < SYNC_GRACE_PERIOD || this.hasPendingUpdate(room.id)) {
+      return;
+    }
+    const wasOn = this.groupsOn.get(room.id);
+    const on = createRoomState(room).modeId !== deviceModes.off;
+    this.groupsOn.set(room.id, on);
+    if (!on) {
+      this.sleepTimers.cancel(room.id, 'the light was turned off elsewhere');
+    } else if (wasOn === false && !this.sleepTimers.has(room.id)) {
+      const duration = this.getSleepTimerDuration(room.id);
+      if (duration > 0) {
+        this.startSleepTimer(room.id, duration);
+      }
     }
-    return this.ensureDeviceDefaults(device);
   }
 
-  // Helper function to extract devices from a room
-  private extractDevicesFromRoom(room: TuolifeRoom): TuoLifeBulbDevice[] {
-    if (room.devices && Array.isArray(room.devices)) {
-      return room.devices.map(this.mapDevice.bind(this));
+  // State the sleep timer of a group starts from, it can't run before the group is known
+  private getSleepTimerState(groupId: string): TuoLifeGroupUpdate {
+    const state = this.getGroupStates()[groupId];
+    if (!state) {
+      throw new Error('the state of the group is not known yet');
     }
-    return [];
+    return { groupId, ...state };
   }
 
-  // Main function to get all devices from rooms
-  private getAllDevicesFromRooms(rooms: TuolifeRoom[]): TuoLifeBulbDevice[] {
-    return rooms.reduce((acc: TuoLifeBulbDevice[], room) => {
-      const devices = this.extractDevicesFromRoom(room);
-      return [...acc, ...devices];
-    }, []);
+  private updateSleepTimerSwitches(groupId: string) {
+    for (const handler of [...this.bulbHandlers.values(), ...this.roomHandlers.values()]) {
+      if (handler.getGroupId() === groupId) {
+        handler.updateSleepTimerSwitch();
+      }
+    }
+  }
+
+  // Characteristic classes of the usage history, undefined while it is turned off
+  getUsageCharacteristics(): UsageCharacteristics | undefined {
+    if (this.usageHistory) {
+      this.usageCharacteristics ??= createUsageCharacteristics(this.api.hap);
+    }
+    return this.usageCharacteristics;
+  }
+
+  // Watts of a bulb at full brightness by its generation, a room draws what its bulbs draw
+  private getUsageWattage(kind: UsageKind, id: string): number {
+    if (kind === 'room') {
+      const room = this.getRoomHandlers().find(handler => handler.getGroupId() === id);
+      return (room?.getBulbIds() ?? []).reduce((sum, bulbId) => sum + this.getUsageWattage('bulb', String(bulbId)), 0);
+    }
+    const device = [...this.accountRooms.values()].flat().flatMap(room => room.devices).find(known => String(known.bulbId) === id);
+    const generation = device?.generation ?? this.getBulbHandlers().find(handler => String(handler.getBulbId()) === id)?.getGeneration();
+    return this.usage.wattage[generation ?? ''] ?? this.usage.defaultWattage;
+  }
+
+  // The server accepted a group update, it is the state to return to when a later one fails
+  confirmGroupState(update: TuoLifeGroupUpdate) {
+    const confirmed = this.confirmedGroupStates.get(update.groupId);
+    this.confirmedGroupStates.set(update.groupId, update.modeId === deviceModes.off && confirmed
+      ? { ...confirmed, modeId: update.modeId }
+      : update);
+    this.log.debug('Server confirmed update for group', update.groupId);
+  }
+
+  // Keep an update the cloud could not be reached for, so it is replayed once the cloud is back
+  private keepForReplay(update: TuoLifeGroupUpdate, error: unknown): boolean {
+    const offlineQueue = this.groupAccounts.get(update.groupId)?.offlineQueue;
+    if (!offlineQueue || !isCloudFailure(error)) {
+      return false;
+    }
+    offlineQueue.add(update);
+    this.log.warn(`Update for ${this.describeGroup(update.groupId)} is pending until the TuoLife cloud is reachable again`);
+    return true;
+  }
+
+  // Send an update kept while the cloud was unreachable, through the command queue so replays keep the minimum interval
+  replayUpdate(update: TuoLifeGroupUpdate, current: () => boolean): Promise<void> {
+    return this.commandQueue.replay(update, current);
+  }
+
+  // Whether an update of the group is waiting for the cloud, the accessories keep showing it until then
+  hasPendingUpdate(groupId: string): boolean {
+    return this.groupAccounts.get(groupId)?.offlineQueue?.has(groupId) ?? false;
+  }
+
+  // A pending update was given up, HomeKit goes back to the last state the server confirmed
+  abandonPendingUpdate(groupId: string, reason: string) {
+    this.log.warn(`Dropping pending update for ${this.describeGroup(groupId)}, ${reason}`);
+    this.rollbackGroupState(groupId);
+  }
+
+  // Names of the accessories of a group, for the log
+  private describeGroup(groupId: string): string {
+    const names = [...this.roomHandlers.values(), ...this.bulbHandlers.values()]
+      .filter(handler => handler.getGroupId() === groupId)
+      .map(handler => handler.getDisplayName());
+    return names.length > 0 ? `${names.join(', ')} (group ${groupId})` : `group ${groupId}`;
+  }
+
+  // Undo the optimistic state of a group after the server did not accept an update
+  private rollbackGroupState(groupId: string) {
+    const confirmed = this.confirmedGroupStates.get(groupId);
+    if (!confirmed) {
+      this.log.warn(`Update for group ${groupId} failed, its state is corrected with the next sync`);
+      return;
+    }
+    this.log.warn(`Update for group ${groupId} failed, restoring its last confirmed state`);
+    this.applyGroupState(confirmed, 'manual', true);
+    if (confirmed.modeId === deviceModes.off) {
+      this.sleepTimers.cancel(groupId, 'the light could not be turned on');
+    }
+  }
+
+  // Mirror a group update on every bulb and room accessory of that group, so siblings don't show stale state
+  private applyGroupState(update: TuoLifeGroupUpdate, origin: UpdateOrigin = 'manual', rollback = false) {
+    this.groupsOn.set(update.groupId, update.modeId !== deviceModes.off);
+    // turning off sends a placeholder brightness, keep the last real values on the siblings
+    const state: Partial<TuoLifeGroupUpdate> = update.modeId === deviceModes.off
+      ? { modeId: update.modeId }
+      : {
+        modeId: update.modeId,
+        brightness: update.brightness,
+        red: update.red,
+        green: update.green,
+        blue: update.blue,
+        violet: update.violet,
+        whiteColor: update.whiteColor,
+      };
+
+    for (const bulb of this.bulbHandlers.values()) {
+      if (bulb.getGroupId() === update.groupId) {
+        bulb.applyState(state, origin, rollback);
+        bulb.recordUsage();
+      }
+    }
+    for (const room of this.roomHandlers.values()) {
+      if (room.getGroupId() === update.groupId) {
+        room.applyState(state, origin, rollback);
+        room.recordUsage();
+      }
+    }
+  }
+
+  /**
+   * State a light is turned on with, following the power-on behavior configured for it.
+   * Falls back to the last on state, or the current state in the default mode, when there is nothing else.
+   */
+  getPowerOnState(groupId: string, current: TuoLifeLightState, lastOn?: TuoLifeLightState, override?: AccessoryOverride): TuoLifeLightState {
+    const behavior = override?.powerOn ?? this.powerOn;
+    if (behavior === 'default') {
+      return { ...this.powerOnDefault };
+    }
+    const roomDefault = this.roomDefaults.get(groupId);
+    if (behavior === 'roomDefault' && roomDefault) {
+      return { ...roomDefault };
+    }
+    return lastOn ? { ...lastOn } : { ...current, modeId: current.modeId !== deviceModes.off ? current.modeId : deviceModes.on };
+  }
+
+  // Settings of a bulb or room from config, the ones for its account before the ones for every account, the defaults when it has none
+  getBulbOverride(bulbId: string, accountId?: string): AccessoryOverride {
+    return (accountId !== undefined ? this.bulbOverrides.get(overrideKey(String(bulbId), accountId)) : undefined)
+      ?? this.bulbOverrides.get(String(bulbId)) ?? DEFAULT_OVERRIDE;
+  }
+
+  getRoomOverride(groupId: string, accountId?: string): AccessoryOverride {
+    return (accountId !== undefined ? this.roomOverrides.get(overrideKey(String(groupId), accountId)) : undefined)
+      ?? this.roomOverrides.get(String(groupId)) ?? DEFAULT_OVERRIDE;
+  }
+
+  /**
+   * Settings of single bulbs or rooms from config by bulbId or groupId, invalid entries and values are skipped with a warning.
+   * An entry with the label of an account only applies to the bulb or room of that account.
+   */
+  private parseOverrides(entries: unknown, kind: 'bulb' | 'room'): Map<string, AccessoryOverride> {
+    const overrides: Map<string, AccessoryOverride> = new Map();
+    if (entries === undefined) {
+      return overrides;
+    }
+    if (!Array.isArray(entries)) {
+      this.log.warn(`Ignoring ${kind} settings in config, expected a list`);
+      return overrides;
+    }
+
+    const idKey = kind === 'bulb' ? 'bulbId' : 'groupId';
+    for (const [index, entry] of entries.entries()) {
+      if (typeof entry !== 'object' || entry === null) {
+        this.log.warn(`Ignoring ${kind} setting #${index + 1} in config, expected an object`);
+        continue;
+      }
+      const rawId = entry[idKey];
+      const id = typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId).trim() : '';
+      if (!id) {
+        this.log.warn(`Ignoring ${kind} setting #${index + 1} in config, ${idKey} is missing`);
+        continue;
+      }
+      const label = typeof entry.account === 'string' ? entry.account.trim() : '';
+      const account = label ? this.findListedAccount(label) : undefined;
+      if (label && !account) {
+        this.log.warn(`Ignoring settings for ${kind} ${id} in config, there is no account with the label ${label}`);
+        continue;
+      }
+      const target = `${kind} ${id}${account ? ` of account ${account.label}` : ''}`;
+      const key = overrideKey(id, account?.id);
+      if (overrides.has(key)) {
+        this.log.warn(`Ignoring duplicate settings for ${target} in config`);
+        continue;
+      }
+
+      for (const key of Object.keys(entry)) {
+        if (!OVERRIDE_KEYS[kind].includes(key)) {
+          this.log.warn(`Ignoring unknown setting ${key} of ${target} in config`);
+        }
+      }
+      const flag = (key: keyof AccessoryOverride): boolean => {
+        const value = entry[key];
+        if (value === undefined || !OVERRIDE_KEYS[kind].includes(key)) {
+          return DEFAULT_OVERRIDE[key] as boolean;
+        }
+        if (typeof value !== 'boolean') {
+          this.log.warn(`Ignoring ${key} of ${target} in config, expected true or false:`, value);
+          return DEFAULT_OVERRIDE[key] as boolean;
+        }
+        return value;
+      };
+
+      const override: AccessoryOverride = {
+        exclude: flag('exclude'),
+        lightbulb: flag('lightbulb'),
+        modeSwitches: flag('modeSwitches'),
+        color: flag('color'),
+        channels: flag('channels'),
+        powerOn: this.parsePowerOnBehavior(entry.powerOn, target),
+        minBrightness: DEFAULT_OVERRIDE.minBrightness,
+      };
+      if (typeof entry.sleepTimer === 'number' && entry.sleepTimer >= 0 && entry.sleepTimer <= MAX_SLEEP_TIMER_DURATION) {
+        override.sleepTimer = entry.sleepTimer;
+      } else if (entry.sleepTimer !== undefined) {
+        this.log.warn(`Ignoring sleepTimer of ${target} in config, expected minutes from 0 to ${MAX_SLEEP_TIMER_DURATION}:`, entry.sleepTimer);
+      }
+      if (typeof entry.name === 'string' && entry.name.trim()) {
+        override.name = entry.name.trim();
+      } else if (entry.name !== undefined && entry.name !== '') {
+        this.log.warn(`Ignoring name of ${target} in config, expected a text:`, entry.name);
+      }
+      if (typeof entry.minBrightness === 'number' && entry.minBrightness >= 0 && entry.minBrightness <= 100) {
+        override.minBrightness = Math.round(entry.minBrightness);
+      } else if (entry.minBrightness !== undefined) {
+        this.log.warn(`Ignoring minBrightness of ${target} in config, expected a number from 0 to 100:`, entry.minBrightness);
+      }
+      if (!override.exclude && !override.lightbulb && !override.modeSwitches && !override.channels) {
+        this.log.warn(`Neither the light, its channels nor the mode switches of ${target} are exposed in config, it is excluded`);
+        override.exclude = true;
+      }
+      overrides.set(key, override);
+    }
+    return overrides;
+  }
+
+  // Warn about config entries for bulbs and rooms the accounts don't have, e.g. because of a typo in the id
+  private checkOverrides() {
+    const bulbKeys: Set<string> = new Set();
+    const groupKeys: Set<string> = new Set();
+    for (const [accountId, rooms] of this.accountRooms) {
+      for (const room of rooms) {
+        groupKeys.add(String(room.id)).add(overrideKey(String(room.id), accountId));
+        for (const device of room.devices) {
+          bulbKeys.add(String(device.bulbId)).add(overrideKey(String(device.bulbId), accountId));
+        }
+      }
+    }
+    for (const key of this.bulbOverrides.keys()) {
+      if (!bulbKeys.has(key)) {
+        this.log.warn(`Settings for bulb ${key} in config don't match any bulb of the TuoLife account`);
+      }
+    }
+    for (const key of this.roomOverrides.keys()) {
+      if (!groupKeys.has(key)) {
+        this.log.warn(`Settings for room ${key} in config don't match any room of the TuoLife account`);
+      }
+    }
+  }
+
+  private parsePowerOnBehavior(value: unknown, target: string): PowerOnBehavior | undefined {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (POWER_ON_BEHAVIORS.includes(value as PowerOnBehavior)) {
+      return value as PowerOnBehavior;
+    }
+    this.log.warn(`Ignoring invalid power-on behavior for ${target}:`, value, `expected one of ${POWER_ON_BEHAVIORS.join(', ')}`);
+    return undefined;
+  }
+
+  // Sleep timer settings, durations are configured in minutes
+  private parseSleepTimer(config?: Record<string, unknown>): TuoLifeSleepTimerConfig {
+    const minutes = (key: string): number => {
+      const value = config?.[key];
+      if (typeof value === 'number' && value >= 0 && value <= MAX_SLEEP_TIMER_DURATION) {
+        return value * 60000;
+      }
+      if (value !== undefined) {
+        this.log.warn(`Ignoring sleepTimer.${key} in config, expected minutes from 0 to ${MAX_SLEEP_TIMER_DURATION}:`, value);
+      }
+      return 0;
+    };
+    let onChange: SleepTimerChangeBehavior = 'keep';
+    if (SLEEP_TIMER_CHANGE_BEHAVIORS.includes(config?.onChange as SleepTimerChangeBehavior)) {
+      onChange = config?.onChange as SleepTimerChangeBehavior;
+    } else if (config?.onChange !== undefined) {
+      this.log.warn('Ignoring invalid sleepTimer.onChange in config:', config.onChange, `expected one of ${SLEEP_TIMER_CHANGE_BEHAVIORS.join(', ')}`);
+    }
+    return { duration: minutes('duration'), fade: minutes('fade'), onChange, switches: config?.switches === true };
+  }
+
+  // Usage history settings, the wattage list gives the watts of a bulb at full brightness by generation
+  private parseUsage(config?: Record<string, unknown>): TuoLifeUsageConfig {
+    const retentionDays = typeof config?.retentionDays === 'number' && config.retentionDays >= 1
+      ? config.retentionDays
+      : DEFAULT_USAGE_RETENTION_DAYS;
+    if (config?.retentionDays !== undefined && retentionDays !== config.retentionDays) {
+      this.log.warn('Ignoring usageHistory.retentionDays in config, expected at least 1 day:', config.retentionDays);
+    }
+    const wattage: Record<string, number> = {};
+    for (const entry of Array.isArray(config?.wattage) ? config.wattage : []) {
+      const generation = typeof entry?.generation === 'string' ? entry.generation.trim() : '';
+      if (!generation || typeof entry.watts !== 'number' || entry.watts < 0) {
+        this.log.warn('Ignoring invalid wattage in config, expected a generation and watts:', entry);
+        continue;
+      }
+      wattage[generation] = entry.watts;
+    }
+    return {
+      enabled: config?.enabled === true,
+      retention: retentionDays * 86400000,
+      wattage,
+      defaultWattage: typeof config?.defaultWattage === 'number' && config.defaultWattage >= 0 ? config.defaultWattage : DEFAULT_BULB_WATTAGE,
+    };
   }
 
-  private ensureDeviceDefaults(device: Partial<TuoLifeBulbDevice>): TuoLifeBulbDevice {
+  // Fixed state of the "default" power-on behavior, color from hue and saturation
+  private parsePowerOnDefault(config?: Record<string, unknown>): TuoLifeLightState {
+    const modeId = typeof config?.modeId === 'string' ? config.modeId.trim() : '';
+    const brightness = Number(config?.brightness);
+    const hue = Number(config?.hue);
+    const saturation = Number(config?.saturation);
     return {
-      bulbId: 'defaultId',
-      nickname: 'defaultNickname',
-      groupId: 'defaultGroupId',
-      modeId: 'off',
-      generation: '1',
-      userId: '',
-      deviceId: '',
-      firmwareVersion: '',
-      isAvailable: false,
-      brightness: 0,
-      red: 0,
-      green: 0,
-      blue: 0,
-      violet: 0,
-      whiteColor: 0,
-      ...device,  // This will override defaults with actual values
+      modeId: modeId && modeId !== deviceModes.off ? modeId : deviceModes.on,
+      brightness: brightness >= 1 && brightness <= 100 ? brightness : DEFAULT_POWER_ON_BRIGHTNESS,
+      ...hueSaturationToChannels(Number.isFinite(hue) ? hue : 0, Number.isFinite(saturation) ? saturation : 0),
     };
   }
+
+  // Default state of a room from the TuoLife app, the first roomDefaults entry with a mode or brightness
+  private parseRoomDefault(room: TuolifeRoom): TuoLifeLightState | undefined {
+    const entry = (Array.isArray(room.roomDefaults) ? room.roomDefaults : [])
+      .find((value): value is Record<string, unknown> => typeof value === 'object' && value !== null
+        && ('modeId' in value || 'brightness' in value));
+    if (!entry) {
+      return undefined;
+    }
+    const number = (value: unknown, fallback: number) => Number.isFinite(Number(value)) && value !== '' ? Number(value) : fallback;
+    const state: TuoLifeLightState = {
+      ...this.powerOnDefault,
+      modeId: typeof entry.modeId === 'string' && entry.modeId && entry.modeId !== deviceModes.off ? entry.modeId : deviceModes.on,
+      brightness: number(entry.brightness, this.powerOnDefault.brightness),
+    };
+    for (const channel of COLOR_CHANNELS) {
+      state[channel] = number(entry[channel], state[channel]);
+    }
+    return state;
+  }
+
+  /**
+   * One account for the credentials at the top level of the config and one for every entry of the accounts list.
+   * The top-level account keeps the UUIDs it always had, listed accounts are namespaced by their label.
+   * Sync settings of an account fall back to the ones at the top level.
+   */
+  private parseAccounts(config: PlatformConfig): TuoLifeAccount[] {
+    const options = (entry: Record<string, unknown>, id: string, label?: string): TuoLifeAccountOptions => {
+      const number = (key: string, valid: (value: number) => boolean) => [entry[key], config[key]]
+        .find((value): value is number => typeof value === 'number' && valid(value));
+      const offlineQueueMaxAge = config.offlineQueueMaxAge >= 0 ? config.offlineQueueMaxAge : DEFAULT_OFFLINE_QUEUE_MAX_AGE;
+      return {
+        id,
+        label,
+        username: typeof entry.username === 'string' ? entry.username : undefined,
+        password: typeof entry.password === 'string' ? entry.password : undefined,
+        apiKey: typeof entry.apiKey === 'string' ? entry.apiKey : undefined,
+        // timeouts are configured in seconds
+        baseUrl: config.apiBaseUrl,
+        timeout: config.requestTimeout > 0 ? config.requestTimeout * 1000 : undefined,
+        retries: config.requestRetries >= 0 ? config.requestRetries : undefined,
+        syncInterval: (number('syncInterval', value => value >= MIN_SYNC_INTERVAL) ?? DEFAULT_SYNC_INTERVAL) * 1000,
+        // missing accessories are kept for a while, the cloud may just be having a bad minute
+        removeMissingAfter: Math.floor(number('removeMissingAfter', value => value >= 1) ?? DEFAULT_REMOVE_MISSING_AFTER),
+        removeMissingAfterHours: number('removeMissingAfterHours', value => value >= 0) ?? 0,
+        offlineQueueMaxAge: offlineQueueMaxAge * 60000,
+      };
+    };
+
+    const accounts: TuoLifeAccount[] = [];
+    const listed: unknown[] = Array.isArray(config.accounts) ? config.accounts : [];
+    if (config.username || config.password || config.apiKey || listed.length === 0) {
+      accounts.push(new TuoLifeAccount(this, options(config, '')));
+    }
+    for (const entry of listed) {
+      if (typeof entry !== 'object' || entry === null) {
+        this.log.warn('Ignoring invalid account in config:', entry);
+        continue;
+      }
+      const account = entry as Record<string, unknown>;
+      const label = typeof account.label === 'string' ? account.label.trim() : '';
+      const id = toAccountId(label);
+      if (!id) {
+        this.log.warn('Ignoring account without label in config, the label keeps its accessories apart from the other accounts');
+        continue;
+      }
+      if (accounts.some(known => known.id === id)) {
+        this.log.warn('Ignoring account in config, its label is used by another account:', label);
+        continue;
+      }
+      accounts.push(new TuoLifeAccount(this, options(account, id, label)));
+    }
+    return accounts;
+  }
+
+  private parseScenes(configScenes: unknown): TuoLifeScene[] {
+    const scenes: TuoLifeScene[] = [];
+    for (const scene of Array.isArray(configScenes) ? configScenes : []) {
+      const id = typeof scene?.id === 'string' ? scene.id.trim() : '';
+      if (!id) {
+        this.log.warn('Ignoring scene without id in config:', scene);
+        continue;
+      }
+      if (scenes.some(known => known.id === id)) {
+        this.log.warn('Ignoring duplicate scene in config:', id);
+        continue;
+      }
+      scenes.push({ id, name: typeof scene.name === 'string' && scene.name.trim() ? scene.name.trim() : id });
+    }
+    return scenes;
+  }
+
+  // Validate the configured modes, the off mode is handled by the On characteristic
+  private parseModes(configModes: unknown): TuoLifeMode[] {
+    if (!Array.isArray(configModes) || configModes.length === 0) {
+      return DEFAULT_MODES;
+    }
+
+    const modes: TuoLifeMode[] = [];
+    for (const mode of configModes) {
+      const id = typeof mode?.id === 'string' ? mode.id.trim() : '';
+      if (!id || id === deviceModes.off) {
+        this.log.warn('Ignoring invalid mode in config:', mode);
+        continue;
+      }
+      if (modes.some(known => known.id === id)) {
+        this.log.warn('Ignoring duplicate mode in config:', id);
+        continue;
+      }
+      modes.push({ id, name: typeof mode.name === 'string' && mode.name.trim() ? mode.name.trim() : id });
+    }
+    return modes;
+  }
+
+  // All devices of the rooms, the API client already dropped the ones that can't be identified
+  private getAllDevicesFromRooms(rooms: TuolifeRoom[]): TuoLifeBulbDevice[] {
+    return rooms.flatMap(room => room.devices);
+  }
 }
@@ -0,0 +1,48 @@
+import type { Logging } from 'homebridge';
+
+import { promises as fs } from 'node:fs';
+
+import { TuoLifeSceneSnapshot } from './types.js';
+
+/**
+ * TuoLife Scene Store
+ * Keeps the saved scene snapshots in a JSON file in Homebridge's storage path,
+ * so they survive restarts and cache resets.
+ */
+export class TuoLifeSceneStore {
+  private snapshots: Record<string, TuoLifeSceneSnapshot> = {};
+  private loading?: Promise<void>;
+
+  constructor(
+    private readonly file: string,
+    private readonly log: Logging,
+  ) {}
+
+  async get(sceneId: string): Promise<TuoLifeSceneSnapshot | undefined> {
+    await (this.loading ??= this.load());
+    return this.snapshots[sceneId];
+  }
+
+  async set(sceneId: string, snapshot: TuoLifeSceneSnapshot) {
+    await (this.loading ??= this.load());
+    this.snapshots[sceneId] = snapshot;
+    try {
+      await fs.writeFile(this.file, JSON.stringify(this.snapshots, null, 2));
+    } catch (error) {
+      this.log.warn('Could not save TuoLife scenes:', (error as Error).message);
+    }
+  }
+
+  private async load() {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      if (typeof stored === 'object' && stored !== null && !Array.isArray(stored)) {
+        this.snapshots = stored;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn('Could not read saved TuoLife scenes:', (error as Error).message);
+      }
+    }
+  }
+}
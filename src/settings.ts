@@ -1,3 +1,5 @@
+import type { TuoLifeMode } from './types.js';
+
 /**
  * This is the name of the platform that users will use to register the plugin in the Homebridge config.json
  */
@@ -7,3 +9,116 @@ export const PLATFORM_NAME = 'HomebridgeTuoLife';
  * This must match the name of your plugin as defined the package.json `name` property
  */
 export const PLUGIN_NAME = 'homebridge-tuolife';
+
+/**
+ * TuoLife modes exposed in HomeKit when the config doesn't list any
+ */
+export const DEFAULT_MODES: TuoLifeMode[] = [
+  { id: 'calm5', name: 'Calm' },
+  { id: 'active5', name: 'Active' },
+];
+
+/**
+ * TuoLife cloud API, can be overridden in the config to use a local mock server
+ */
+export const DEFAULT_API_BASE_URL = 'https://mobileapi.thetuolife.com';
+
+/**
+ * File in the Homebridge storage path that keeps the TuoLife login token
+ */
+export const TOKEN_FILE_NAME = 'tuolife-token.json';
+
+/**
+ * File in the Homebridge storage path that keeps the saved scenes
+ */
+export const SCENES_FILE_NAME = 'tuolife-scenes.json';
+
+/**
+ * File in the Homebridge storage path that keeps the updates waiting for the cloud
+ */
+export const OFFLINE_QUEUE_FILE_NAME = 'tuolife-offline-queue.json';
+
+/**
+ * File in the Homebridge storage path that keeps the running sleep timers
+ */
+export const SLEEP_TIMERS_FILE_NAME = 'tuolife-sleep-timers.json';
+
+/**
+ * File in the Homebridge storage path that keeps the usage history of the lights
+ */
+export const USAGE_HISTORY_FILE_NAME = 'tuolife-usage.json';
+
+/**
+ * Seconds between two syncs with the TuoLife server
+ */
+export const DEFAULT_SYNC_INTERVAL = 180;
+export const MIN_SYNC_INTERVAL = 30;
+
+/**
+ * Milliseconds after a change in HomeKit during which server data doesn't overwrite it
+ */
+export const SYNC_GRACE_PERIOD = 15000;
+
+/**
+ * Successful server responses an accessory may be missing from before it is removed
+ */
+export const DEFAULT_REMOVE_MISSING_AFTER = 3;
+
+/**
+ * Seconds before discovery is tried again after a failure, doubled up to the maximum
+ */
+export const DISCOVERY_RETRY_DELAY = 30;
+export const MAX_DISCOVERY_RETRY_DELAY = 1800;
+
+/**
+ * Brightness of the "default" power-on behavior when none is configured
+ */
+export const DEFAULT_POWER_ON_BRIGHTNESS = 100;
+
+/**
+ * Seconds between two steps of an effect
+ */
+export const DEFAULT_EFFECT_STEP_INTERVAL = 10;
+
+/**
+ * Milliseconds a change waits for further changes of the same group before it is sent
+ */
+export const DEFAULT_COMMAND_DEBOUNCE = 300;
+
+/**
+ * Minimum milliseconds between two commands sent to the TuoLife server
+ */
+export const DEFAULT_MIN_COMMAND_INTERVAL = 1000;
+
+/**
+ * Minutes an update that could not be sent is kept for a replay
+ */
+export const DEFAULT_OFFLINE_QUEUE_MAX_AGE = 30;
+
+/**
+ * Seconds before pending updates are replayed, doubled after every failed replay up to the maximum
+ */
+export const OFFLINE_REPLAY_DELAY = 10;
+export const MAX_OFFLINE_REPLAY_DELAY = 300;
+
+/**
+ * Minutes a sleep timer started from HomeKit runs when no duration is configured, and the longest one
+ */
+export const DEFAULT_SLEEP_TIMER_DURATION = 30;
+export const MAX_SLEEP_TIMER_DURATION = 1440;
+
+/**
+ * Seconds between two brightness steps while a sleep timer fades out
+ */
+export const SLEEP_TIMER_STEP_INTERVAL = 30;
+
+/**
+ * Days the usage history is kept, and the watts of a bulb at full brightness when its generation has no wattage in config
+ */
+export const DEFAULT_USAGE_RETENTION_DAYS = 30;
+export const DEFAULT_BULB_WATTAGE = 9;
+
+/**
+ * Seconds a change of the usage history waits before it is written, so effects don't write the file on every step
+ */
+export const USAGE_SAVE_DELAY = 60;
@@ -0,0 +1,280 @@
+import type { CharacteristicValue, Logging, PlatformAccessory, Service } from 'homebridge';
+
+import { promises as fs } from 'node:fs';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import { DEFAULT_SLEEP_TIMER_DURATION, MAX_SLEEP_TIMER_DURATION } from './settings.js';
+import { configureOptionalCharacteristic, updateIfChanged } from './util.js';
+
+export type TuoLifeSleepTimersOptions = {
+  // turns the group off once its timer ran out
+  turnOff(groupId: string): Promise<void>;
+  // lowers the brightness of the group while its timer fades out
+  dim(groupId: string, brightness: number): Promise<void>;
+  // current brightness of the group, the fade starts from it
+  getBrightness(groupId: string): number;
+  // a timer of the group was started, ran out or was cancelled
+  changed(groupId: string): void;
+  // milliseconds between two steps of a fade, and before turning off is tried again after it failed
+  stepInterval: number;
+  log: Logging;
+};
+
+// A sleep timer of a group, times are epoch millis
+type SleepTimer = {
+  startedAt: number;
+  endsAt: number;
+  // milliseconds before the end the brightness starts going down, 0 to turn off at once
+  fade: number;
+  // brightness the fade started from, set with its first step
+  fadeFrom?: number;
+};
+
+// subtype of the Switch service that starts and cancels the sleep timer
+const SLEEP_TIMER_SUBTYPE = 'sleep-timer';
+
+// setTimeout can't wait longer than this
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * TuoLife Sleep Timers
+ * Turns a group off a set time after its timer was started, optionally fading the brightness down over the final minutes.
+ * The timers are kept in a JSON file in Homebridge's storage path, a timer that ran out during a restart fires right after it.
+ */
+export class TuoLifeSleepTimers {
+  private timers: Record<string, SleepTimer> = {};
+  private readonly timeouts: Map<string, NodeJS.Timeout> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly file: string,
+    private readonly options: TuoLifeSleepTimersOptions,
+  ) {}
+
+  has(groupId: string): boolean {
+    return groupId in this.timers;
+  }
+
+  // Milliseconds until the group is turned off, 0 without a timer
+  getRemaining(groupId: string): number {
+    const timer = this.timers[groupId];
+    return timer ? Math.max(0, timer.endsAt - Date.now()) : 0;
+  }
+
+  // Start the timer of a group, replacing the one running before, durations in milliseconds
+  start(groupId: string, duration: number, fade: number) {
+    clearTimeout(this.timeouts.get(groupId));
+    const now = Date.now();
+    this.timers[groupId] = { startedAt: now, endsAt: now + duration, fade: Math.min(fade, duration) };
+    this.options.log.info(`Sleep timer of group ${groupId} turns it off in ${Math.round(duration / 60000)} minutes`);
+    this.save();
+    this.schedule(groupId);
+    this.options.changed(groupId);
+  }
+
+  // Start the timer of a group over with the duration it was started with
+  restart(groupId: string) {
+    const timer = this.timers[groupId];
+    if (timer) {
+      this.start(groupId, timer.endsAt - timer.startedAt, timer.fade);
+    }
+  }
+
+  // Cancel the timer of a group, returns false when none was running
+  cancel(groupId: string, reason: string): boolean {
+    if (!this.has(groupId)) {
+      return false;
+    }
+    clearTimeout(this.timeouts.get(groupId));
+    this.timeouts.delete(groupId);
+    delete this.timers[groupId];
+    this.options.log.info(`Cancelled sleep timer of group ${groupId}, ${reason}`);
+    this.save();
+    this.options.changed(groupId);
+    return true;
+  }
+
+  // A manual change of the brightness during a fade, the fade goes on from the new brightness
+  restartFade(groupId: string) {
+    const timer = this.timers[groupId];
+    if (timer?.fadeFrom !== undefined) {
+      timer.fadeFrom = undefined;
+      this.save();
+    }
+  }
+
+  // Stop the timeouts when Homebridge shuts down, the timers go on after the restart
+  stopAll() {
+    for (const timeout of this.timeouts.values()) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.clear();
+  }
+
+  // Read the timers running before the last restart and schedule them again
+  async load() {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      if (typeof stored === 'object' && stored !== null && !Array.isArray(stored)) {
+        this.timers = stored;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.options.log.warn('Could not read sleep timers:', (error as Error).message);
+      }
+    }
+    for (const groupId of Object.keys(this.timers)) {
+      this.schedule(groupId);
+      this.options.changed(groupId);
+    }
+  }
+
+  private schedule(groupId: string, delay?: number) {
+    const timer = this.timers[groupId];
+    if (!timer) {
+      return;
+    }
+    const untilEnd = Math.max(0, timer.endsAt - Date.now());
+    if (delay === undefined) {
+      // wait for the start of the fade, step through it, and turn the group off at the end
+      const untilFade = untilEnd - timer.fade;
+      if (timer.fade === 0) {
+        delay = untilEnd;
+      } else if (untilFade > 0) {
+        delay = untilFade;
+      } else {
+        delay = timer.fadeFrom === undefined ? 0 : Math.min(this.options.stepInterval, untilEnd);
+      }
+    }
+    clearTimeout(this.timeouts.get(groupId));
+    this.timeouts.set(groupId, setTimeout(() => this.run(groupId, timer), Math.min(delay, MAX_TIMEOUT)));
+  }
+
+  private async run(groupId: string, timer: SleepTimer) {
+    this.timeouts.delete(groupId);
+    const remaining = timer.endsAt - Date.now();
+
+    if (remaining <= 0) {
+      try {
+        await this.options.turnOff(groupId);
+      } catch (error) {
+        if (this.timers[groupId] === timer) {
+          this.options.log.warn(`Sleep timer of group ${groupId} could not turn it off, trying again:`, (error as Error)?.message ?? error);
+          this.schedule(groupId, this.options.stepInterval);
+        }
+        return;
+      }
+      if (this.timers[groupId] === timer) {
+        delete this.timers[groupId];
+        this.options.log.info(`Sleep timer of group ${groupId} ran out, turned it off`);
+        this.save();
+        this.options.changed(groupId);
+      }
+      return;
+    }
+    if (remaining > timer.fade) {
+      // woken up early by the limit of setTimeout
+      this.schedule(groupId);
+      return;
+    }
+
+    // fade linearly from the brightness at the start of the fade, the last step before the end is at 1 %
+    timer.fadeFrom ??= this.options.getBrightness(groupId);
+    this.save();
+    const brightness = Math.max(1, Math.round(timer.fadeFrom * remaining / timer.fade));
+    try {
+      await this.options.dim(groupId, brightness);
+    } catch (error) {
+      this.options.log.debug(`Fade step of the sleep timer of group ${groupId} failed:`, (error as Error)?.message ?? error);
+    }
+    if (this.timers[groupId] === timer) {
+      this.schedule(groupId);
+    }
+  }
+
+  // Writes are chained, so an older state can never overwrite a newer one
+  private save() {
+    const content = JSON.stringify(this.timers, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.writeFile(this.file, content);
+      } catch (error) {
+        this.options.log.warn('Could not save sleep timers:', (error as Error).message);
+      }
+    });
+  }
+}
+
+// Reflect the timer of the group on the sleep timer switch, returns true when it changed
+export function updateSleepTimerSwitch(platform: TuoLifeHomebridgePlatform, service: Service | undefined, groupId: string): boolean {
+  if (!service) {
+    return false;
+  }
+  const remaining = Math.round(platform.sleepTimers.getRemaining(groupId) / 1000);
+  return [
+    updateIfChanged(service, platform.Characteristic.On, platform.sleepTimers.has(groupId)),
+    updateIfChanged(service, platform.Characteristic.RemainingDuration, Math.min(MAX_SLEEP_TIMER_DURATION * 60, remaining)),
+  ].some(Boolean);
+}
+
+/**
+ * Add the sleep timer Switch when turned on in config, linked to the light of the accessory, and remove it otherwise.
+ * Turning it on starts the timer of the group with its SetDuration, RemainingDuration counts down.
+ */
+export function configureSleepTimerSwitch(
+  platform: TuoLifeHomebridgePlatform,
+  accessory: PlatformAccessory,
+  light: Service,
+  getGroupId: () => string,
+): Service | undefined {
+  const cached = accessory.getServiceById(platform.Service.Switch, SLEEP_TIMER_SUBTYPE);
+  if (!platform.sleepTimer.switches) {
+    if (cached) {
+      platform.log.debug('Removing sleep timer switch:', cached.displayName);
+      light.removeLinkedService(cached);
+      accessory.removeService(cached);
+    }
+    return undefined;
+  }
+
+  const Characteristic = platform.Characteristic;
+  const service = cached || accessory.addService(platform.Service.Switch, 'Sleep Timer', SLEEP_TIMER_SUBTYPE);
+  service.setCharacteristic(Characteristic.Name, 'Sleep Timer');
+  if (accessory.services.includes(light)) {
+    light.addLinkedService(service);
+  }
+
+  // the duration set in HomeKit is kept with the accessory, in seconds like the characteristic
+  const maxValue = MAX_SLEEP_TIMER_DURATION * 60;
+  const duration = typeof accessory.context.sleepTimerDuration === 'number'
+    ? accessory.context.sleepTimerDuration
+    : (platform.sleepTimer.duration / 1000 || DEFAULT_SLEEP_TIMER_DURATION * 60);
+  // neither is part of the Switch service, HAP warns about characteristics a service doesn't declare
+  configureOptionalCharacteristic(service, Characteristic.SetDuration, true);
+  configureOptionalCharacteristic(service, Characteristic.RemainingDuration, true);
+  service.getCharacteristic(Characteristic.SetDuration)
+    .setProps({ maxValue })
+    .onSet((value: CharacteristicValue) => {
+      accessory.context.sleepTimerDuration = Number(value);
+      platform.api.updatePlatformAccessories([accessory]);
+    });
+  service.updateCharacteristic(Characteristic.SetDuration, Math.min(maxValue, Math.max(1, Math.round(duration))));
+  service.getCharacteristic(Characteristic.RemainingDuration)
+    .setProps({ maxValue })
+    .onGet(() => Math.min(maxValue, Math.round(platform.sleepTimers.getRemaining(getGroupId()) / 1000)));
+
+  updateSleepTimerSwitch(platform, service, getGroupId());
+  service.getCharacteristic(Characteristic.On)
+    .onSet((value: CharacteristicValue) => {
+      if (!platform.isCloudReachable(getGroupId())) {
+        throw platform.communicationFailure();
+      }
+      if (value) {
+        const seconds = Number(service.getCharacteristic(Characteristic.SetDuration).value);
+        platform.startSleepTimer(getGroupId(), seconds * 1000);
+      } else {
+        platform.sleepTimers.cancel(getGroupId(), 'its switch was turned off');
+      }
+    });
+  return service;
+}
@@ -0,0 +1,243 @@
+import type { Logging } from 'homebridge';
+
+import { TuoLifeAuthError, TuoLifeNetworkError, TuoLifeParseError, TuoLifeServerError } from './errors.js';
+import { DEFAULT_API_BASE_URL } from './settings.js';
+import { TuoLifeGroupUpdate, TuolifeRoom } from './types.js';
+import { normalizeRooms } from './validation.js';
+
+/**
+ * Supplies the Authorization header, either a fixed api key or a logged in session
+ */
+export interface TuoLifeCredentials {
+  getToken(): Promise<string>;
+  // forget the current token so the next getToken() gets a new one, false if there is no way to get one
+  invalidateToken(): boolean;
+}
+
+// Token returned by the login endpoint
+export type TuoLifeLoginResult = {
+  token: string;
+  // epoch millis, undefined when the server doesn't say
+  expiresAt?: number;
+};
+
+export type TuoLifeApiClientOptions = {
+  credentials?: TuoLifeCredentials;
+  // base url of the TuoLife API, without trailing slash
+  baseUrl?: string;
+  // timeout of a single request in milliseconds
+  timeout?: number;
+  // number of retries after the first attempt
+  retries?: number;
+  // delay before the first retry in milliseconds, doubled for every further retry
+  retryDelay?: number;
+  // upper limit for any delay between retries, including Retry-After
+  maxRetryDelay?: number;
+  log?: Pick<Logging, 'debug' | 'warn'>;
+};
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an http date, returns milliseconds
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Expiry of a login token, from the response or the exp claim of a JWT
+function parseTokenExpiry(data: Record<string, unknown>, token: string): number | undefined {
+  if (typeof data.expiresIn === 'number') {
+    return Date.now() + data.expiresIn * 1000;
+  }
+  if (typeof data.expiresAt === 'number' || typeof data.expiresAt === 'string') {
+    const expiresAt = new Date(data.expiresAt).getTime();
+    return Number.isNaN(expiresAt) ? undefined : expiresAt;
+  }
+  const [, payload] = token.replace(/^Bearer\s+/i, '').split('.');
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * TuoLife API Client
+ * Typed access to the TuoLife cloud endpoints used by the plugin.
+ * Every request checks the response status, times out, and is retried with
+ * exponential backoff on network errors, 5xx and 429 responses.
+ */
+export class TuoLifeApiClient {
+  public readonly baseUrl: string;
+  public credentials?: TuoLifeCredentials;
+  private readonly timeout: number;
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly maxRetryDelay: number;
+  // problems with the response data already logged, the same ones come back with every sync
+  private readonly warnings: Set<string> = new Set();
+
+  constructor(private readonly options: TuoLifeApiClientOptions) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.credentials = options.credentials;
+  }
+
+  /**
+   * POST user/login
+   * Exchanges the account credentials for a token. This request is not authenticated.
+   */
+  async login(username: string, password: string): Promise<TuoLifeLoginResult> {
+    const text = await this.request('POST', 'user/login', { email: username, password }, false);
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new TuoLifeParseError('login returned invalid JSON', { cause: error });
+    }
+    const token = data?.token ?? data?.accessToken ?? data?.access_token;
+    if (typeof token !== 'string' || !token) {
+      throw new TuoLifeParseError('login response does not contain a token');
+    }
+    return { token, expiresAt: parseTokenExpiry(data, token) };
+  }
+
+  /**
+   * GET group/roomsByUser
+   * All rooms of the account with their bulbs and current state.
+   */
+  async roomsByUser(): Promise<TuolifeRoom[]> {
+    const text = await this.request('GET', 'group/roomsByUser');
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new TuoLifeParseError('roomsByUser returned invalid JSON', { cause: error });
+    }
+    if (!Array.isArray(data)) {
+      throw new TuoLifeParseError('Unexpected roomsByUser response, expected an array of rooms');
+    }
+    return normalizeRooms(data, message => this.warnOnce(message));
+  }
+
+  /**
+   * POST mode/roomModeStart
+   * Applies mode, brightness and color to every bulb of a group. The response body is not used.
+   */
+  async roomModeStart(update: TuoLifeGroupUpdate): Promise<void> {
+    await this.request('POST', 'mode/roomModeStart', {
+      groupId: update.groupId,
+      modeId: update.modeId,
+      brightness: update.brightness,
+      red: update.red,
+      green: update.green,
+      blue: update.blue,
+      violet: update.violet,
+      whiteColor: update.whiteColor,
+    });
+  }
+
+  // Send a request, retrying the failures that may go away by themselves, returns the response body
+  private async request(method: 'GET' | 'POST', path: string, body?: object, authenticated = true): Promise<string> {
+    let renewedToken = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(method, path, body, authenticated);
+      } catch (error) {
+        // an expired token is renewed once, a second rejection is final
+        if (authenticated && !renewedToken && error instanceof TuoLifeAuthError && error.status === 401
+          && this.credentials?.invalidateToken()) {
+          renewedToken = true;
+          this.options.log?.debug(`${method} ${path} was rejected, retrying with a new token`);
+          continue;
+        }
+        if (attempt >= this.retries || !this.isRetryable(error)) {
+          throw error;
+        }
+        const backoff = this.retryDelay * 2 ** attempt;
+        const retryAfter = error instanceof TuoLifeServerError ? error.retryAfter : undefined;
+        const delay = Math.min(this.maxRetryDelay, retryAfter ?? backoff);
+        this.options.log?.debug(`${method} ${path} failed (${(error as Error).message}), retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async send(method: 'GET' | 'POST', path: string, body: object | undefined, authenticated: boolean): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (authenticated) {
+      if (!this.credentials) {
+        throw new TuoLifeAuthError(`${method} ${path} needs credentials, none are configured`, 401);
+      }
+      headers.Authorization = await this.credentials.getToken();
+    }
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${path}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      if ((error as Error)?.name === 'TimeoutError') {
+        throw new TuoLifeNetworkError(`${method} ${path} timed out after ${this.timeout} ms`, { cause: error });
+      }
+      throw new TuoLifeNetworkError(`${method} ${path} failed: ${(error as Error)?.message ?? error}`, { cause: error });
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new TuoLifeAuthError(`${method} ${path} was rejected with status ${response.status}`, response.status);
+    }
+    if (!response.ok) {
+      throw new TuoLifeServerError(`${method} ${path} failed with status ${response.status}`, response.status,
+        parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    try {
+      return await response.text();
+    } catch (error) {
+      throw new TuoLifeNetworkError(`${method} ${path} failed while reading the response`, { cause: error });
+    }
+  }
+
+  private warnOnce(message: string) {
+    if (!this.warnings.has(message)) {
+      this.warnings.add(message);
+      this.options.log?.warn(message);
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof TuoLifeNetworkError) {
+      return true;
+    }
+    if (error instanceof TuoLifeServerError) {
+      return error.status === 429 || error.status >= 500;
+    }
+    return false;
+  }
+}
@@ -1,7 +1,30 @@
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
-
-import type { TuoLifeHomebridgePlatform } from './platform.js';
-import { TuoLifeBulbDevice, deviceModes } from './types.js';
+import type { AdaptiveLightingController, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { TuoLifeHomebridgePlatform, UpdateOrigin } from './platform.js';
+import {
+  COLOR_CHANNELS,
+  HueSaturation,
+  channelsToColorTemperature,
+  channelsToHueSaturation,
+  colorTemperatureToChannels,
+  hueSaturationToChannels,
+} from './color.js';
+import { configureEffectSwitches, updateEffectSwitches } from './effects.js';
+import { SYNC_GRACE_PERIOD } from './settings.js';
+import { configureSleepTimerSwitch, updateSleepTimerSwitch } from './sleeptimer.js';
+import { configureUsageCharacteristics, updateUsageCharacteristics } from './usagehistory.js';
+import { ColorWriter, configureOptionalCharacteristic, createColorWriter, removeColorCharacteristics, updateIfChanged } from './util.js';
+import { AccessoryOverride, AdaptiveLightingState, TuoLifeBulbDevice, TuoLifeColorChannels, TuoLifeLightState, TuoLifeMode, deviceModes } from './types.js';
+
+// subtype prefix of the Switch services that select a TuoLife mode
+const MODE_SUBTYPE_PREFIX = 'mode-';
+
+// Channels that can be exposed as Lightbulb services of their own
+type ChannelKey = 'violet' | 'whiteColor';
+const CHANNEL_SERVICES: Array<{ channel: ChannelKey; subtype: string; name: string }> = [
+  { channel: 'violet', subtype: 'channel-violet', name: 'Violet' },
+  { channel: 'whiteColor', subtype: 'channel-white', name: 'White' },
+];
 
 /**
  * TuoLife Bulb
@@ -10,6 +33,18 @@ import { TuoLifeBulbDevice, deviceModes } from './types.js';
  */
 export class TuoLifeBulbAccessory {
   private service: Service;
+  // only configured while the light and its color are exposed
+  private adaptiveLightingController?: AdaptiveLightingController;
+  private modeServices: Map<string, Service> = new Map();
+  private effectServices: Map<string, Service> = new Map();
+  // Switch that starts and cancels the sleep timer of the group, only while turned on in config
+  private sleepTimerService?: Service;
+  // linked Lightbulb services of the violet and white channels, only while turned on in config
+  private channelServices: Map<ChannelKey, Service> = new Map();
+  // settings of this bulb from config
+  private readonly override: AccessoryOverride;
+  // hue and saturation written together are sent as one color
+  private readonly writeColor: ColorWriter;
 
   /**
    * These are just used to create a working example
@@ -17,6 +52,8 @@ export class TuoLifeBulbAccessory {
    */
   
   private lastChanged: number = 0;
+  // false while HomeKit shows the bulb as not responding
+  private reachable = true;
 
   // Get TuoLife Group States
   //public bulb: TuoLifeBulbDevice;
@@ -45,20 +82,31 @@ export class TuoLifeBulbAccessory {
       whiteColor: 0,
     };*/
     
+    this.override = this.platform.getBulbOverride(accessory.context.device.bulbId, this.getAccountId());
+
     // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'TuoLife')
-      .setCharacteristic(this.platform.Characteristic.Model, accessory.context.device.generation)
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, accessory.context.device.bulbId)
-      .setCharacteristic(this.platform.Characteristic.FirmwareRevision, accessory.context.device.firmwareVersion);
+    this.setAccessoryInformation();
 
     // get the LightBulb service if it exists, otherwise create a new LightBulb service
     // you can create multiple services for each accessory
-    this.service = this.accessory.getService(this.platform.Service.Lightbulb) || this.accessory.addService(this.platform.Service.Lightbulb);
+    // the channel lights are Lightbulb services as well, the main light is the one without a subtype
+    if (this.override.lightbulb) {
+      this.service = this.getMainLightbulb() || this.accessory.addService(this.platform.Service.Lightbulb);
+    } else {
+      // a light turned off in config still tracks its state, on a service that isn't part of the accessory
+      const cached = this.getMainLightbulb();
+      if (cached) {
+        this.accessory.removeService(cached);
+      }
+      this.service = new this.platform.Service.Lightbulb(this.getDisplayName());
+    }
 
     // set the service name, this is what is displayed as the default name on the Home app
     // in this example we are using the name we stored in the `accessory.context` in the `discoverDevices` method.
-    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.nickname);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.getDisplayName());
+    if (this.accessory.displayName !== this.getDisplayName()) {
+      this.accessory.displayName = this.getDisplayName();
+    }
 
     /*this.bulb.brightness = accessory.context.device.brightness as number;
     this.bulb.groupId = accessory.context.device.groupId;
@@ -70,8 +118,12 @@ export class TuoLifeBulbAccessory {
     // each service must implement at-minimum the "required characteristics" for the given service type
     // see https://developers.homebridge.io/#/service/Lightbulb
     
+    // a minimum brightness in config limits the slider in HomeKit
+    if (this.override.minBrightness > 0) {
+      this.service.getCharacteristic(this.platform.Characteristic.Brightness).setProps({ minValue: this.override.minBrightness });
+    }
     // Set current brightness wihtout triggering the setBrightness handler
-    this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.getBrightness());
+    this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.getHomeKitBrightness());
     // Set current on/off without triggering the setOn handler
     this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== 'off');
 
@@ -84,6 +136,144 @@ export class TuoLifeBulbAccessory {
     this.service.getCharacteristic(this.platform.Characteristic.Brightness)
       .onSet(this.setBrightness.bind(this)); // SET - bind to the `setBrightness` method below
 
+    this.writeColor = createColorWriter(this.service, this.platform.Characteristic);
+    if (this.override.color) {
+      // Set current color without triggering the setHue/setSaturation handlers
+      const { hue, saturation } = channelsToHueSaturation(this.getColorChannels());
+      this.service.updateCharacteristic(this.platform.Characteristic.Hue, hue);
+      this.service.updateCharacteristic(this.platform.Characteristic.Saturation, saturation);
+      // Set current color temperature without triggering the setColorTemperature handler
+      this.service.updateCharacteristic(this.platform.Characteristic.ColorTemperature, channelsToColorTemperature(this.getColorChannels()));
+
+      // register handlers for the Hue and Saturation Characteristics
+      this.service.getCharacteristic(this.platform.Characteristic.Hue)
+        .onSet(this.setHue.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.Saturation)
+        .onSet(this.setSaturation.bind(this));
+
+      // register handlers for the ColorTemperature Characteristic
+      this.service.getCharacteristic(this.platform.Characteristic.ColorTemperature)
+        .onSet(this.setColorTemperature.bind(this));
+    } else {
+      removeColorCharacteristics(this.service, this.platform.Characteristic);
+    }
+
+    // a bulb that is on starts out with its current state as the last on state
+    this.rememberOnState();
+
+    // expose every configured TuoLife mode and effect as a named switch
+    this.configureModeSwitches();
+    this.configureChannelServices();
+    this.effectServices = configureEffectSwitches(this.platform, this.accessory, () => this.getGroupId());
+    this.sleepTimerService = configureSleepTimerSwitch(this.platform, this.accessory, this.service, () => this.getGroupId());
+    configureUsageCharacteristics(this.platform, this.service, 'bulb', () => String(this.getBulbId()));
+
+    // report unreachable bulbs with StatusFault when turned on in config
+    configureOptionalCharacteristic(this.service, this.platform.Characteristic.StatusFault, this.platform.statusFault);
+    this.updateAvailability();
+
+    // a controller can only be configured once per accessory, reuse it when the handler is created again
+    if (this.override.lightbulb && this.override.color) {
+      this.adaptiveLightingController = this.platform.adaptiveLightingControllers.get(this.accessory.UUID)
+        ?? this.configureAdaptiveLighting();
+    }
+
+  }
+
+  private setAccessoryInformation() {
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'TuoLife')
+      .setCharacteristic(this.platform.Characteristic.Model, this.getGeneration())
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.getBulbId())
+      .setCharacteristic(this.platform.Characteristic.FirmwareRevision, this.getFirmwareVersion());
+  }
+
+  private getMainLightbulb(): Service | undefined {
+    return this.accessory.services.find(service => service.UUID === this.platform.Service.Lightbulb.UUID && !service.subtype);
+  }
+
+  /**
+   * Add a linked Lightbulb service for the violet and the white channel when turned on in config,
+   * the brightness of each is the value of its channel. They are removed again when turned off.
+   */
+  private configureChannelServices() {
+    for (const { channel, subtype, name } of CHANNEL_SERVICES) {
+      const cached = this.accessory.getServiceById(this.platform.Service.Lightbulb, subtype);
+      if (!this.override.channels) {
+        if (cached) {
+          this.platform.log.debug('Removing channel light:', cached.displayName);
+          this.service.removeLinkedService(cached);
+          this.accessory.removeService(cached);
+        }
+        continue;
+      }
+
+      const service = cached || this.accessory.addService(this.platform.Service.Lightbulb, name, subtype);
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      if (this.override.lightbulb) {
+        this.service.addLinkedService(service);
+      }
+      service.updateCharacteristic(this.platform.Characteristic.Brightness, this.getChannel(channel));
+      service.updateCharacteristic(this.platform.Characteristic.On, this.isChannelOn(channel));
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onSet((value: CharacteristicValue) => this.setChannelOn(channel, value));
+      service.getCharacteristic(this.platform.Characteristic.Brightness)
+        .onSet((value: CharacteristicValue) => this.setChannel(channel, Number(value)));
+      this.channelServices.set(channel, service);
+    }
+    if (this.override.channels && this.override.lightbulb) {
+      this.service.setPrimaryService(true);
+    }
+  }
+
+  /**
+   * Add a Switch service for every configured mode and remove the ones
+   * left over from modes that are no longer in the config.
+   */
+  private configureModeSwitches() {
+    const modes = this.override.modeSwitches ? this.platform.modes : [];
+    const modeSubtypes = modes.map(mode => MODE_SUBTYPE_PREFIX + mode.id);
+    for (const service of [...this.accessory.services]) {
+      if (service.UUID === this.platform.Service.Switch.UUID && service.subtype?.startsWith(MODE_SUBTYPE_PREFIX)
+        && !modeSubtypes.includes(service.subtype)) {
+        this.platform.log.debug('Removing mode switch:', service.displayName);
+        this.accessory.removeService(service);
+      }
+    }
+
+    for (const mode of modes) {
+      const subtype = MODE_SUBTYPE_PREFIX + mode.id;
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+        || this.accessory.addService(this.platform.Service.Switch, mode.name, subtype);
+      service.setCharacteristic(this.platform.Characteristic.Name, mode.name);
+      service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() === mode.id);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onSet(value => this.setMode(mode, value));
+      this.modeServices.set(mode.id, service);
+    }
+  }
+
+  /**
+   * Add HomeKit Adaptive Lighting to the Lightbulb service.
+   * HAP restores an active transition from its own storage, the copy kept in
+   * `accessory.context` is used when that storage has nothing for this accessory.
+   */
+  private configureAdaptiveLighting(): AdaptiveLightingController {
+    const controller = new this.platform.api.hap.AdaptiveLightingController(this.service);
+    this.accessory.configureController(controller);
+    this.platform.adaptiveLightingControllers.set(this.accessory.UUID, controller);
+
+    const saved: AdaptiveLightingState | undefined = this.accessory.context.adaptiveLighting;
+    if (saved && !controller.isAdaptiveLightingActive()) {
+      this.platform.log.debug('Restoring adaptive lighting from accessory context:', this.getNickname());
+      try {
+        controller.deserialize(saved);
+      } catch (error) {
+        this.platform.log.warn('Could not restore adaptive lighting for', this.getNickname(), error);
+        this.accessory.context.adaptiveLighting = undefined;
+      }
+    }
+    return controller;
   }
 
   /**
@@ -92,45 +282,24 @@ export class TuoLifeBulbAccessory {
    */
   async setOn(value: CharacteristicValue) {
     this.platform.log.debug('setOn called with value:', value);
+    this.assertReachable();
+
+    if (value && this.getModeId() !== deviceModes.off) {
+      // already on, keep the running mode
+      return;
+    }
+
+    // turning on follows the configured power-on behavior, turning off keeps brightness and color for next time
+    const state: Partial<TuoLifeBulbDevice> = value ? this.getPowerOnState() : { modeId: deviceModes.off };
 
-    const bodyVal: string = '';
     // Optimistically update the device state
-    this.accessory.context.device.modeId = value ? deviceModes.on : deviceModes.off;
+    Object.assign(this.accessory.context.device, state);
     this.lastChanged = Date.now();
-    
-    // send to server to turn on device
-    //const modeId = value ? deviceModes.on : deviceModes.off;
-    //const brightness = value ? Number(this.getBrightness()) : 5; // default brightness when off
 
     this.platform.log.debug(value ? 'Turning on device' : 'Turning off device');
 
-    // create tuolife bulb object with mix of defaults and current values
-    const aBulb : TuoLifeBulbDevice = {
-      nickname: this.getNickname(),
-      generation: this.getGeneration(),
-      userId: this.getUserId(),
-      groupId: this.getGroupId(),
-      bulbId: this.getBulbId(),
-      deviceId: this.getDeviceId(),
-      firmwareVersion: this.getFirmwareVersion(),
-      isAvailable: this.getIsAvailable(),
-      modeId: value ? deviceModes.on : deviceModes.off, // New modeId
-      brightness: value ?Number(this.getBrightness()):5, // New brightness
-      red: this.getRed(),
-      green: this.getGreen(),
-      blue: this.getBlue(),
-      violet: this.getViolet(),
-      whiteColor: this.getWhiteColor(),
-    };
-
-    try {
-      await this.platform.sendBulbUpdateToServer(aBulb);
-      this.platform.log.debug('Successfully sent update to server', bodyVal);
-    } catch (error) {
-      this.platform.log.error('Error sending setOn to server:', error);
-      this.platform.log.debug('Device body:', bodyVal);
-    }
-
+    this.queueUpdate(this.createBulbUpdate(state), 'setOn');
+    this.updateModeSwitches();
     this.platform.log.debug('Set Characteristic On ->', value);
     
   }
@@ -154,6 +323,7 @@ export class TuoLifeBulbAccessory {
     // implement your own code to check if the device is on
     // return the local device state
     this.platform.log.debug('getOn called ', this.getModeId());
+    this.assertReachable();
     const isOn = this.getModeId() !== deviceModes.off;
     this.platform.log.debug('getOn returned ', isOn);
     return isOn;
@@ -165,8 +335,10 @@ export class TuoLifeBulbAccessory {
    */
   async setBrightness(value: CharacteristicValue) {
     // implement your own code to set the brightness
-    
-    this.accessory.context.device.brightness = Number(value);
+    this.assertReachable();
+
+    value = Math.max(this.override.minBrightness, Number(value));
+    this.accessory.context.device.brightness = value;
     // save timestamp of last changed locally
     this.lastChanged = Date.now();
 
@@ -179,7 +351,7 @@ export class TuoLifeBulbAccessory {
       deviceId: this.getDeviceId(),
       firmwareVersion: this.getFirmwareVersion(),
       isAvailable: this.getIsAvailable(),
-      modeId: deviceModes.on, // New modeId
+      modeId: this.getOnModeId(), // New modeId
       brightness: Number(value), // New brightness
       red: this.getRed(),
       green: this.getGreen(),
@@ -188,27 +360,432 @@ export class TuoLifeBulbAccessory {
       whiteColor: this.getWhiteColor(),
     };
     //post brightness to tuolife
+    this.queueUpdate(aBulb, 'setBrightness');
+
+    this.platform.log.debug('Set Characteristic Brightness -> ', value);
+    
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for a mode switch
+   * Turning a mode on starts it on the room, turning the active mode off turns the light off.
+   */
+  async setMode(mode: TuoLifeMode, value: CharacteristicValue) {
+    this.assertReachable();
+    if (!value && this.getModeId() !== mode.id) {
+      // switching off a mode that isn't running changes nothing
+      this.updateModeSwitches();
+      return;
+    }
+    const modeId = value ? mode.id : deviceModes.off;
+
+    // Optimistically update the device state
+    this.accessory.context.device.modeId = modeId;
+    this.lastChanged = Date.now();
+    this.service.updateCharacteristic(this.platform.Characteristic.On, modeId !== deviceModes.off);
+    this.updateModeSwitches();
+
+    this.queueUpdate(this.createBulbUpdate({ modeId }), 'mode');
+    this.platform.log.debug('Set Mode ->', modeId);
+  }
+
+  // Reflect the effect running on the group on the effect switches
+  updateEffectSwitches(): boolean {
+    return updateEffectSwitches(this.platform, this.effectServices, this.getGroupId());
+  }
+
+  // Reflect the sleep timer of the group on its switch
+  updateSleepTimerSwitch(): boolean {
+    return updateSleepTimerSwitch(this.platform, this.sleepTimerService, this.getGroupId());
+  }
+
+  // Record the state HomeKit shows in the usage history and show the new totals
+  recordUsage() {
+    this.platform.usageHistory?.record('bulb', String(this.getBulbId()), this.getLightState());
+    updateUsageCharacteristics(this.platform, this.service, 'bulb', String(this.getBulbId()));
+  }
+
+  // Reflect the current modeId on the mode switches, returns true when a switch changed
+  private updateModeSwitches(): boolean {
+    let changed = false;
+    for (const [modeId, service] of this.modeServices) {
+      changed = updateIfChanged(service, this.platform.Characteristic.On, this.getModeId() === modeId) || changed;
+    }
+    return changed;
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for a channel light
+   * Turning a channel on brings back its last level, turning it off only clears that channel.
+   */
+  async setChannelOn(channel: ChannelKey, value: CharacteristicValue) {
+    this.assertReachable();
+    if (Boolean(value) === this.isChannelOn(channel)) {
+      return;
+    }
+    const lastOn: TuoLifeLightState | undefined = this.accessory.context.lastOn;
+    await this.setChannel(channel, value ? lastOn?.[channel] || 100 : 0);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for the brightness of a channel light
+   * The channel is sent together with the other channels, a bulb that is off is turned on.
+   */
+  async setChannel(channel: ChannelKey, value: number) {
+    this.assertReachable();
+    this.disableAdaptiveLighting();
+    this.sendColor({ ...this.getColorChannels(), [channel]: value });
+    this.platform.log.debug(`Set Channel ${channel} -> `, value);
+  }
+
+  private getChannel(channel: ChannelKey): number {
+    return this.accessory.context.device[channel];
+  }
+
+  private isChannelOn(channel: ChannelKey): boolean {
+    return this.getModeId() !== deviceModes.off && this.getChannel(channel) > 0;
+  }
+
+  // Reflect the violet and white channels on their lights, returns true when a characteristic changed
+  private updateChannelServices(): boolean {
+    let changed = false;
+    for (const [channel, service] of this.channelServices) {
+      changed = updateIfChanged(service, this.platform.Characteristic.Brightness, this.getChannel(channel)) || changed;
+      changed = updateIfChanged(service, this.platform.Characteristic.On, this.isChannelOn(channel)) || changed;
+    }
+    return changed;
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   * HomeKit sends hue and saturation as separate writes, the other half of the color
+   * is the one written with it or the current characteristic value.
+   */
+  async setHue(value: CharacteristicValue) {
+    this.assertReachable();
+    this.disableAdaptiveLighting();
+    this.setColor({ hue: Number(value) });
+    this.platform.log.debug('Set Characteristic Hue -> ', value);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   */
+  async setSaturation(value: CharacteristicValue) {
+    this.assertReachable();
+    this.disableAdaptiveLighting();
+    this.setColor({ saturation: Number(value) });
+    this.platform.log.debug('Set Characteristic Saturation -> ', value);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   * These come from the user as well as from every Adaptive Lighting transition step,
+   * the controller marks its own writes with a `controller` entry in the context.
+   * The controller doesn't look at On, its steps never turn a bulb on that is off.
+   */
+  async setColorTemperature(value: CharacteristicValue, context?: { controller?: unknown }) {
+    const controllerStep = Boolean(context?.controller);
+    const keepOff = controllerStep && this.getModeId() === deviceModes.off;
+    if (!keepOff) {
+      this.assertReachable();
+    }
+    if (controllerStep) {
+      this.saveAdaptiveLightingState();
+    } else {
+      this.disableAdaptiveLighting();
+    }
+
+    // keep hue and saturation in line with the temperature, using HAP's own conversion
+    // so that HomeKit doesn't see a change while Adaptive Lighting is running
+    const { hue, saturation } = this.platform.api.hap.ColorUtils.colorTemperatureToHueAndSaturation(Number(value));
+    this.service.updateCharacteristic(this.platform.Characteristic.Hue, hue);
+    this.service.updateCharacteristic(this.platform.Characteristic.Saturation, saturation);
+
+    if (keepOff) {
+      // the bulb takes the color when it is turned on the next time
+      Object.assign(this.accessory.context.device, colorTemperatureToChannels(Number(value)));
+      this.platform.log.debug('Keeping Adaptive Lighting ColorTemperature of bulb that is off -> ', value);
+      return;
+    }
+    // the steps of the controller are no change made by hand, they don't end effects or touch the sleep timer
+    this.sendColor(colorTemperatureToChannels(Number(value)), controllerStep ? 'adaptiveLighting' : 'manual');
+    this.platform.log.debug('Set Characteristic ColorTemperature -> ', value);
+  }
+
+  /**
+   * Switch Adaptive Lighting off, e.g. when a manual color was set in HomeKit or the TuoLife app
+   */
+  disableAdaptiveLighting() {
+    if (!this.adaptiveLightingController) {
+      return;
+    }
+    if (this.adaptiveLightingController.isAdaptiveLightingActive()) {
+      this.platform.log.info('Disabling adaptive lighting for', this.getNickname());
+      this.adaptiveLightingController.disableAdaptiveLighting();
+    }
+    this.saveAdaptiveLightingState();
+  }
+
+  isAdaptiveLightingActive(): boolean {
+    return this.adaptiveLightingController?.isAdaptiveLightingActive() ?? false;
+  }
+
+  // Mirror the Adaptive Lighting transition in the accessory context, only persisting when it changed
+  private saveAdaptiveLightingState() {
+    const saved: AdaptiveLightingState | undefined = this.accessory.context.adaptiveLighting;
+    const current = this.adaptiveLightingController?.serialize();
+    if (saved?.activeTransition.transitionStartMillis === current?.activeTransition.transitionStartMillis) {
+      return;
+    }
+    this.accessory.context.adaptiveLighting = current;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  // Convert the HomeKit color to tuolife channels and post it to the server
+  private setColor(changes: Partial<HueSaturation>) {
+    const { hue, saturation } = this.writeColor(changes);
+    this.sendColor(hueSaturationToChannels(hue, saturation));
+  }
+
+  private sendColor(channels: TuoLifeColorChannels, origin: UpdateOrigin = 'manual') {
+    // Optimistically update the device state
+    Object.assign(this.accessory.context.device, channels);
+    this.lastChanged = Date.now();
+
+    this.queueUpdate(this.createBulbUpdate({
+      modeId: this.getOnModeId(),
+      ...channels, // New color
+    }), 'color', origin);
+  }
+
+  /**
+   * Queue an update for the server without holding up HomeKit, the write is done once the update is queued.
+   * Debounce, rate limit and retries can take longer than HomeKit waits for a write, a failure shows up afterwards:
+   * the platform rolls the state back and the light reports No Response.
+   */
+  private queueUpdate(aBulb: TuoLifeBulbDevice, description: string, origin: UpdateOrigin = 'manual') {
+    this.sendUpdate(aBulb, description, origin).catch(error => this.reportFailure(error));
+  }
+
+  /**
+   * Report a failed update to HomeKit after the platform rolled the state back. The error stays on On until it gets a value,
+   * updateIfChanged skips a later state that is the same, so the rolled back state is pushed again unless the bulb is unreachable.
+   */
+  private reportFailure(error: unknown) {
+    this.service.updateCharacteristic(this.platform.Characteristic.On, error as Error);
+    if (this.isReachable()) {
+      this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== deviceModes.off);
+    }
+  }
+
+  // Send an update to the server and wait for it, a failure is thrown as the error HomeKit shows as No Response
+  private async sendUpdate(aBulb: TuoLifeBulbDevice, description: string, origin: UpdateOrigin = 'manual') {
     try {
-      await this.platform.sendBulbUpdateToServer(aBulb);
+      await this.platform.sendBulbUpdateToServer(aBulb, origin);
       this.platform.log.debug('Successfully sent update to server', aBulb);
     } catch (error) {
-      this.platform.log.error('Error sending setBrightness to server:', error);
+      this.platform.log.error(`Error sending ${description} to server:`, error);
       this.platform.log.debug('Device body:', aBulb);
+      throw this.platform.communicationFailure();
     }
-    
-    this.accessory.context.device.brightness = value;
-    this.platform.log.debug('Set Characteristic Brightness -> ', value);
-    
   }
 
-  async updateHomeKitCharacteristics() {
+  /**
+   * Apply several changes in one update and wait until the server has it, e.g. from the HTTP API.
+   * A new color ends adaptive lighting like the same change made in HomeKit.
+   */
+  async setState(changes: Partial<TuoLifeLightState>) {
+    this.assertReachable();
+    if (COLOR_CHANNELS.some(channel => changes[channel] !== undefined)) {
+      this.disableAdaptiveLighting();
+    }
+    const state = changes.brightness !== undefined ? { ...changes, brightness: Math.max(this.override.minBrightness, changes.brightness) } : changes;
+
+    // Optimistically update the device state
+    Object.assign(this.accessory.context.device, state);
+    this.lastChanged = Date.now();
+    await this.sendUpdate(this.createBulbUpdate(state), 'state');
+  }
+
+  // State the bulb is turned on with, adaptive lighting owns the color while it runs
+  getPowerOnState(): TuoLifeLightState {
+    const state = this.platform.getPowerOnState(this.getGroupId(), this.getLightState(), this.accessory.context.lastOn, this.override);
+    return this.isAdaptiveLightingActive() ? { ...state, ...this.getColorChannels() } : state;
+  }
+
+  // The running mode, or the mode the bulb is turned on with when a change turns it on
+  private getOnModeId(): string {
+    return this.getModeId() !== deviceModes.off ? this.getModeId() : this.getPowerOnState().modeId;
+  }
+
+  // Keep the last state the bulb was on with, it is restored when the bulb is turned on again
+  private rememberOnState() {
+    if (this.getModeId() !== deviceModes.off) {
+      this.accessory.context.lastOn = this.getLightState();
+    }
+  }
+
+  // Current device state with the given changes applied, ready to send to the server
+  private createBulbUpdate(changes: Partial<TuoLifeBulbDevice>): TuoLifeBulbDevice {
+    return {
+      nickname: this.getNickname(),
+      generation: this.getGeneration(),
+      userId: this.getUserId(),
+      groupId: this.getGroupId(),
+      bulbId: this.getBulbId(),
+      deviceId: this.getDeviceId(),
+      firmwareVersion: this.getFirmwareVersion(),
+      isAvailable: this.getIsAvailable(),
+      modeId: this.getModeId(),
+      brightness: this.getBrightness(),
+      ...this.getColorChannels(),
+      ...changes,
+    };
+  }
+
+  // Apply state changed through another accessory of the same group, or the last confirmed state after a failed update
+  applyState(state: Partial<TuoLifeBulbDevice>, origin: UpdateOrigin = 'manual', rollback = false) {
+    Object.assign(this.accessory.context.device, state);
+    // a rolled back state is no local change, the next sync may overwrite it right away
+    this.lastChanged = rollback ? 0 : Date.now();
+    // the steps of effects and of the fade of a sleep timer are no state to turn the bulb back on with
+    if (origin !== 'effect' && origin !== 'sleepTimer') {
+      this.rememberOnState();
+    }
+    this.updateHomeKitCharacteristics();
+  }
+
+  /**
+   * Apply the availability reported by the server. A bulb that is offline, or can't be
+   * reached because the cloud is down, shows "No Response" in HomeKit.
+   */
+  updateAvailability(isAvailable = this.getIsAvailable()) {
+    if (isAvailable !== this.getIsAvailable()) {
+      this.accessory.context.device.isAvailable = isAvailable;
+      if (isAvailable) {
+        this.platform.log.info(`${this.getNickname()} is back online`);
+      } else {
+        this.platform.log.warn(`${this.getNickname()} is offline`);
+      }
+    }
+
+    const reachable = this.isReachable();
+    if (this.platform.statusFault) {
+      const Characteristic = this.platform.Characteristic;
+      updateIfChanged(this.service, Characteristic.StatusFault,
+        reachable ? Characteristic.StatusFault.NO_FAULT : Characteristic.StatusFault.GENERAL_FAULT);
+    }
+    if (reachable !== this.reachable) {
+      this.reachable = reachable;
+      if (reachable) {
+        this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== deviceModes.off);
+      } else {
+        this.service.updateCharacteristic(this.platform.Characteristic.On, this.platform.communicationFailure());
+      }
+      for (const [channel, service] of this.channelServices) {
+        if (reachable) {
+          service.updateCharacteristic(this.platform.Characteristic.On, this.isChannelOn(channel));
+        } else {
+          service.updateCharacteristic(this.platform.Characteristic.On, this.platform.communicationFailure());
+        }
+      }
+    }
+  }
+
+  // Bulbs of older caches have no isAvailable yet, they count as available
+  isReachable(): boolean {
+    return this.getIsAvailable() !== false && this.platform.isCloudReachable(this.getGroupId());
+  }
+
+  private assertReachable() {
+    if (!this.isReachable()) {
+      throw this.platform.communicationFailure();
+    }
+  }
+
+  /**
+   * Apply the name and device information received from the server,
+   * returns the fields that changed so the platform can persist and report them.
+   */
+  updateInfo(device: TuoLifeBulbDevice): Array<keyof TuoLifeBulbDevice> {
+    const current = this.accessory.context.device;
+    const keys = ['nickname', 'generation', 'userId', 'groupId', 'deviceId', 'firmwareVersion'] as const;
+    const changed = keys.filter(key => current[key] !== device[key]);
+    for (const key of changed) {
+      current[key] = device[key];
+    }
+
+    // a name set in config wins over the name from the TuoLife app
+    if (changed.includes('nickname') && !this.override.name) {
+      this.accessory.displayName = device.nickname;
+      this.service.updateCharacteristic(this.platform.Characteristic.Name, device.nickname);
+    }
+    if (changed.includes('generation') || changed.includes('firmwareVersion')) {
+      this.setAccessoryInformation();
+    }
+    return changed;
+  }
 
-    this.platform.log.debug('Updating HomeKit Characteristics for ', this.getNickname());
-    this.platform.log.debug('Brightness: ', this.getBrightness());
-    this.platform.log.debug('ModeId: ', this.getModeId());
-    this.service.updateCharacteristic(this.platform.Characteristic.Brightness, this.getBrightness());
-    this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== deviceModes.off);
-    this.platform.log.info('Updated HomeKit Characteristics for ', this.getNickname());
+  /**
+   * Apply the state received from the server during a sync.
+   * A change made in HomeKit moments ago wins, the server may not have caught up with it yet.
+   */
+  updateFromServer(device: TuoLifeBulbDevice) {
+    const sinceChange = Date.now() - this.lastChanged;
+    if (sinceChange < SYNC_GRACE_PERIOD) {
+      this.platform.log.debug(`Keeping local state of ${this.getNickname()}, changed ${sinceChange} ms ago`);
+      return;
+    }
+    if (this.platform.hasPendingUpdate(this.getGroupId())) {
+      this.platform.log.debug(`Keeping local state of ${this.getNickname()}, an update is pending`);
+      return;
+    }
+
+    const current = this.accessory.context.device;
+    const state: Partial<TuoLifeBulbDevice> = {
+      modeId: device.modeId,
+      brightness: Number(device.brightness),
+      red: Number(device.red),
+      green: Number(device.green),
+      blue: Number(device.blue),
+      violet: Number(device.violet),
+      whiteColor: Number(device.whiteColor),
+    };
+    const changed = (Object.keys(state) as Array<keyof TuoLifeBulbDevice>).filter(key => current[key] !== state[key]);
+    if (changed.length === 0) {
+      return;
+    }
+    this.platform.log.debug(`Server changed ${changed.join(', ')} of ${this.getNickname()}`);
+    Object.assign(current, state);
+
+    // a color set outside of HomeKit, e.g. in the TuoLife app, ends adaptive lighting
+    if (changed.some(key => (COLOR_CHANNELS as string[]).includes(key)) && this.isAdaptiveLightingActive()) {
+      this.disableAdaptiveLighting();
+    }
+    this.rememberOnState();
+    this.updateHomeKitCharacteristics();
+  }
+
+  // Push the device state to HomeKit, only characteristics whose value changed are updated
+  async updateHomeKitCharacteristics() {
+    const Characteristic = this.platform.Characteristic;
+    const { hue, saturation } = channelsToHueSaturation(this.getColorChannels());
+    const changed = [
+      updateIfChanged(this.service, Characteristic.Brightness, this.getHomeKitBrightness()),
+      updateIfChanged(this.service, Characteristic.On, this.getModeId() !== deviceModes.off),
+      ...(this.override.color ? [
+        updateIfChanged(this.service, Characteristic.Hue, hue),
+        updateIfChanged(this.service, Characteristic.Saturation, saturation),
+        updateIfChanged(this.service, Characteristic.ColorTemperature, channelsToColorTemperature(this.getColorChannels())),
+      ] : []),
+      this.updateModeSwitches(),
+      this.updateChannelServices(),
+    ].some(Boolean);
+
+    if (changed) {
+      this.platform.log.info('Updated HomeKit Characteristics for ', this.getNickname());
+    }
   }
 
   // create get for each property of bulb 
@@ -260,6 +837,11 @@ export class TuoLifeBulbAccessory {
     return this.accessory.context.device.bulbId;
   }
 
+  // Id of the TuoLife account of the bulb, empty for the account at the top of the config
+  getAccountId(): string {
+    return this.accessory.context.account ?? '';
+  }
+
   getDeviceId(): string {
     return this.accessory.context.device.deviceId;
   }
@@ -291,4 +873,28 @@ export class TuoLifeBulbAccessory {
   getWhiteColor(): number {
     return this.accessory.context.device.whiteColor;
   }
+
+  // Name in HomeKit, from config or the TuoLife app
+  getDisplayName(): string {
+    return this.override.name ?? this.getNickname();
+  }
+
+  // Brightness within the range the Brightness characteristic allows
+  private getHomeKitBrightness(): number {
+    return Math.max(this.override.minBrightness, this.getBrightness());
+  }
+
+  getLightState(): TuoLifeLightState {
+    return { modeId: this.getModeId(), brightness: this.getBrightness(), ...this.getColorChannels() };
+  }
+
+  getColorChannels(): TuoLifeColorChannels {
+    return {
+      red: this.getRed(),
+      green: this.getGreen(),
+      blue: this.getBlue(),
+      violet: this.getViolet(),
+      whiteColor: this.getWhiteColor(),
+    };
+  }
 }
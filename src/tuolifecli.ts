@@ -0,0 +1,337 @@
+import type { API, Logging, PlatformConfig } from 'homebridge';
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import { parseArgs } from 'node:util';
+
+import { TuoLifeHomebridgePlatform } from './platform.js';
+import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
+import { TuoLifeApiClient } from './tuolifeapi.js';
+import { createRoomState } from './tuoliferoom.js';
+import { TuoLifeApiKey } from './tuolifesession.js';
+import { TuoLifeColorChannels, TuoLifeGroupUpdate, TuolifeRoom, deviceModes } from './types.js';
+
+// Where the CLI prints to, the console unless given otherwise
+export type TuoLifeCliOutput = {
+  log(message: string): void;
+  error(message: string): void;
+};
+
+const USAGE = `Usage: tuolife <command> [options]
+
+Commands:
+  rooms                     List the rooms of the account
+  bulbs                     List the bulbs of the account
+  bulb <bulbId>             Show the full state of a bulb
+  set <groupId>             Change a room and all of its bulbs
+  validate <config.json>    Check the TuoLife platform of a Homebridge config
+
+Account:
+  --config <config.json>    Use the account of a Homebridge config
+  --account <label>         Use an account from the accounts list of that config
+  --username <email>        TuoLife login, or TUOLIFE_USERNAME
+  --password <password>     TuoLife login, or TUOLIFE_PASSWORD
+  --api-key <key>           API key instead of the login, or TUOLIFE_API_KEY
+  --base-url <url>          TuoLife API to talk to, e.g. a mock server
+
+Changes for set, anything but --off turns the room on:
+  --on, --off
+  --brightness <0-100>
+  --mode <modeId>
+  --red, --green, --blue, --violet, --white <0-100>
+
+Output:
+  --json                    Print the raw JSON instead of a table
+  --verbose                 Log retries and other details of the requests
+  --help                    Show this help
+`;
+
+const OPTIONS = {
+  'config': { type: 'string' },
+  'account': { type: 'string' },
+  'username': { type: 'string' },
+  'password': { type: 'string' },
+  'api-key': { type: 'string' },
+  'base-url': { type: 'string' },
+  'on': { type: 'boolean' },
+  'off': { type: 'boolean' },
+  'brightness': { type: 'string' },
+  'mode': { type: 'string' },
+  'red': { type: 'string' },
+  'green': { type: 'string' },
+  'blue': { type: 'string' },
+  'violet': { type: 'string' },
+  'white': { type: 'string' },
+  'json': { type: 'boolean' },
+  'verbose': { type: 'boolean' },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+// Command line options of every color channel
+const CHANNEL_OPTIONS: Array<[keyof TuoLifeColorChannels, 'red' | 'green' | 'blue' | 'violet' | 'white']> = [
+  ['red', 'red'],
+  ['green', 'green'],
+  ['blue', 'blue'],
+  ['violet', 'violet'],
+  ['whiteColor', 'white'],
+];
+
+// Wrong arguments, the usage is printed with the message
+class UsageError extends Error {}
+
+function parseCommandLine(args: string[]) {
+  try {
+    return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    // unknown options and missing option values
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function required(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+// Percentages of brightness and the color channels
+function parsePercent(value: string, option: string): number {
+  const number = Number(value);
+  if (!value.trim() || !Number.isInteger(number) || number < 0 || number > 100) {
+    throw new UsageError(`--${option} must be a whole number from 0 to 100, got ${value}`);
+  }
+  return number;
+}
+
+/**
+ * The TuoLife platform of a Homebridge config.json, the file may also hold just the platform block.
+ * Platforms are matched by name, with or without the plugin name in front.
+ */
+async function readPlatformConfig(file: string): Promise<PlatformConfig> {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${(error as Error).message}`);
+  }
+  const isTuoLife = (block: unknown) => typeof block === 'object' && block !== null
+    && [PLATFORM_NAME, `${PLUGIN_NAME}.${PLATFORM_NAME}`].includes((block as PlatformConfig).platform);
+  const block = isTuoLife(data) ? data : (Array.isArray(data?.platforms) ? data.platforms : []).find(isTuoLife);
+  if (!block) {
+    throw new Error(`No ${PLATFORM_NAME} platform in ${file}`);
+  }
+  return block as PlatformConfig;
+}
+
+/**
+ * API client for the account given on the command line, in a Homebridge config or the environment.
+ * A login is used for this run only, the token the plugin keeps in the storage path is left alone.
+ */
+async function connect(values: CliValues, output: TuoLifeCliOutput): Promise<TuoLifeApiClient> {
+  const config = values.config ? await readPlatformConfig(values.config) : undefined;
+  let account: Record<string, unknown> = config ?? {};
+  if (values.account) {
+    const listed: unknown[] = Array.isArray(config?.accounts) ? config.accounts : [];
+    const label = values.account.trim().toLowerCase();
+    const found = listed.find(entry => typeof (entry as Record<string, unknown>)?.label === 'string'
+      && ((entry as Record<string, unknown>).label as string).trim().toLowerCase() === label);
+    if (!found) {
+      throw new UsageError(`No account ${values.account} in ${values.config ? values.config : 'the config, use --config'}`);
+    }
+    account = found as Record<string, unknown>;
+  }
+  const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+  const username = values.username ?? text(account.username) ?? process.env.TUOLIFE_USERNAME;
+  const password = values.password ?? text(account.password) ?? process.env.TUOLIFE_PASSWORD;
+  const apiKey = values['api-key'] ?? text(account.apiKey) ?? process.env.TUOLIFE_API_KEY;
+
+  const client = new TuoLifeApiClient({
+    baseUrl: values['base-url'] ?? text(config?.apiBaseUrl),
+    log: {
+      debug: (message: string) => values.verbose && output.error(message),
+      warn: (message: string) => output.error(`warning: ${message}`),
+    },
+  });
+  if (username && password) {
+    const { token } = await client.login(username, password);
+    client.credentials = new TuoLifeApiKey(token);
+  } else if (apiKey) {
+    client.credentials = new TuoLifeApiKey(apiKey);
+  } else {
+    throw new UsageError('No TuoLife account, use --username and --password, --api-key or --config');
+  }
+  return client;
+}
+
+// Columns padded to the widest cell
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+function formatChannels(channels: TuoLifeColorChannels): string {
+  return CHANNEL_OPTIONS.map(([channel]) => channels[channel]).join('/');
+}
+
+async function listRooms(client: TuoLifeApiClient, values: CliValues, output: TuoLifeCliOutput) {
+  const rooms = await client.roomsByUser();
+  if (values.json) {
+    output.log(JSON.stringify(rooms, null, 2));
+    return;
+  }
+  output.log(formatTable([
+    ['ID', 'NAME', 'MODE', 'BRIGHTNESS', 'R/G/B/V/W', 'BULBS'],
+    ...rooms.map(room => {
+      const state = createRoomState(room);
+      return [room.id, state.groupName, state.modeId, String(state.brightness), formatChannels(state), state.bulbIds.join(', ')];
+    }),
+  ]));
+}
+
+async function listBulbs(client: TuoLifeApiClient, values: CliValues, output: TuoLifeCliOutput) {
+  const bulbs = (await client.roomsByUser()).flatMap(room => room.devices);
+  if (values.json) {
+    output.log(JSON.stringify(bulbs, null, 2));
+    return;
+  }
+  output.log(formatTable([
+    ['ID', 'NAME', 'ROOM', 'MODE', 'BRIGHTNESS', 'R/G/B/V/W', 'ONLINE'],
+    ...bulbs.map(bulb => [bulb.bulbId, bulb.nickname, bulb.groupId, bulb.modeId, String(bulb.brightness), formatChannels(bulb),
+      bulb.isAvailable ? 'yes' : 'no']),
+  ]));
+}
+
+async function showBulb(client: TuoLifeApiClient, bulbId: string, values: CliValues, output: TuoLifeCliOutput) {
+  const bulb = (await client.roomsByUser()).flatMap(room => room.devices).find(device => device.bulbId === bulbId);
+  if (!bulb) {
+    throw new Error(`No bulb ${bulbId} in the account`);
+  }
+  if (values.json) {
+    output.log(JSON.stringify(bulb, null, 2));
+    return;
+  }
+  output.log(formatTable(Object.entries(bulb).map(([field, value]) => [field, String(value)])));
+}
+
+/**
+ * Send a new state for a group, starting from its current state so unchanged values stay as they are.
+ * Like in HomeKit, any change but turning the room off turns it on.
+ */
+async function setGroup(groupId: string, values: CliValues, output: TuoLifeCliOutput) {
+  if (values.on && values.off) {
+    throw new UsageError('Use either --on or --off');
+  }
+  const channels = CHANNEL_OPTIONS.filter(([, option]) => values[option] !== undefined);
+  if (!values.on && !values.off && values.brightness === undefined && values.mode === undefined && channels.length === 0) {
+    throw new UsageError('Nothing to set, use --on, --off, --brightness, --mode or a channel');
+  }
+  const brightness = values.brightness === undefined ? undefined : parsePercent(values.brightness, 'brightness');
+  const changes: Partial<TuoLifeColorChannels> = Object.fromEntries(channels
+    .map(([channel, option]) => [channel, parsePercent(values[option] as string, option)]));
+
+  const client = await connect(values, output);
+  const room: TuolifeRoom | undefined = (await client.roomsByUser()).find(known => known.id === groupId);
+  if (!room) {
+    throw new Error(`No room ${groupId} in the account`);
+  }
+  const state = createRoomState(room);
+  const onModeId = state.modeId !== deviceModes.off ? state.modeId : deviceModes.on;
+  const update: TuoLifeGroupUpdate = {
+    groupId: state.groupId,
+    modeId: values.off ? deviceModes.off : values.mode ?? onModeId,
+    brightness: brightness ?? state.brightness,
+    red: changes.red ?? state.red,
+    green: changes.green ?? state.green,
+    blue: changes.blue ?? state.blue,
+    violet: changes.violet ?? state.violet,
+    whiteColor: changes.whiteColor ?? state.whiteColor,
+  };
+  await client.roomModeStart(update);
+
+  if (values.json) {
+    output.log(JSON.stringify(update, null, 2));
+    return;
+  }
+  output.log(`${state.groupName}: mode ${update.modeId}, brightness ${update.brightness}, R/G/B/V/W ${formatChannels(update)}`);
+}
+
+/**
+ * Check the TuoLife platform of a Homebridge config by setting up the platform with it, without starting it.
+ * Everything the plugin would warn about at startup is reported, errors make the check fail.
+ */
+async function validateConfig(file: string, output: TuoLifeCliOutput): Promise<number> {
+  const config = await readPlatformConfig(file);
+  const problems: Array<{ level: 'warning' | 'error'; message: string }> = [];
+  const record = (level: 'warning' | 'error') => (message: unknown, ...parameters: unknown[]) => {
+    problems.push({ level, message: [message, ...parameters].map(part => typeof part === 'string' ? part : JSON.stringify(part)).join(' ') });
+  };
+  const ignore = () => undefined;
+  const log = Object.assign(ignore, {
+    prefix: PLATFORM_NAME,
+    info: ignore,
+    success: ignore,
+    debug: ignore,
+    log: ignore,
+    warn: record('warning'),
+    error: record('error'),
+  }) as unknown as Logging;
+  // the platform only reads its config here, it is never launched
+  const api = { hap: {}, user: { storagePath: () => os.tmpdir() }, on: ignore } as unknown as API;
+  new TuoLifeHomebridgePlatform(log, config, api);
+
+  for (const problem of problems) {
+    output.log(`${problem.level}: ${problem.message}`);
+  }
+  const errors = problems.filter(problem => problem.level === 'error').length;
+  output.log(errors > 0
+    ? `${file}: ${errors} errors and ${problems.length - errors} warnings`
+    : `${file}: valid${problems.length > 0 ? `, ${problems.length} warnings` : ''}`);
+  return errors > 0 ? 1 : 0;
+}
+
+/**
+ * Run the tuolife command with the given arguments, without the node and script paths.
+ * Returns the exit code: 0 on success, 1 when the command failed and 2 for wrong arguments.
+ */
+export async function runCli(args: string[], output: TuoLifeCliOutput = console): Promise<number> {
+  try {
+    const { values, positionals } = parseCommandLine(args);
+    const [command, target, ...rest] = positionals;
+    if (values.help || !command) {
+      output.log(USAGE);
+      return values.help ? 0 : 2;
+    }
+    if (rest.length > 0) {
+      throw new UsageError(`Unexpected arguments: ${rest.join(' ')}`);
+    }
+
+    switch (command) {
+    case 'rooms':
+      await listRooms(await connect(values, output), values, output);
+      return 0;
+    case 'bulbs':
+      await listBulbs(await connect(values, output), values, output);
+      return 0;
+    case 'bulb':
+      await showBulb(await connect(values, output), required(target, 'bulbId'), values, output);
+      return 0;
+    case 'set':
+      await setGroup(required(target, 'groupId'), values, output);
+      return 0;
+    case 'validate':
+      return await validateConfig(required(target, 'config.json'), output);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.error(`tuolife: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    output.error(`tuolife: ${(error as Error)?.message ?? error}`);
+    return 1;
+  }
+}
@@ -0,0 +1,411 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { TuoLifeHomebridgePlatform, UpdateOrigin } from './platform.js';
+import { COLOR_CHANNELS, HueSaturation, channelsToHueSaturation, hueSaturationToChannels } from './color.js';
+import { configureEffectSwitches, updateEffectSwitches } from './effects.js';
+import { SYNC_GRACE_PERIOD } from './settings.js';
+import { configureSleepTimerSwitch, updateSleepTimerSwitch } from './sleeptimer.js';
+import { configureUsageCharacteristics, updateUsageCharacteristics } from './usagehistory.js';
+import { ColorWriter, configureOptionalCharacteristic, createColorWriter, removeColorCharacteristics, updateIfChanged } from './util.js';
+import {
+  AccessoryOverride, TuoLifeColorChannels, TuoLifeGroupUpdate, TuoLifeLightState, TuoLifeRoomDevice, TuolifeRoom, deviceModes,
+} from './types.js';
+
+// Aggregate state of a room, the room values win over the values of its bulbs
+export function createRoomState(room: TuolifeRoom): TuoLifeRoomDevice {
+  const devices = room.devices;
+  const reference = devices.find(device => device.modeId !== deviceModes.off) ?? devices[0];
+  const averageBrightness = devices.length > 0
+    ? Math.round(devices.reduce((sum, device) => sum + device.brightness, 0) / devices.length)
+    : 0;
+
+  return {
+    groupId: room.id,
+    groupName: room.groupName || room.id,
+    userId: room.userId,
+    modeId: room.modeId || reference?.modeId || deviceModes.off,
+    brightness: room.brightness ?? averageBrightness,
+    red: reference?.red ?? 0,
+    green: reference?.green ?? 0,
+    blue: reference?.blue ?? 0,
+    violet: reference?.violet ?? 0,
+    whiteColor: reference?.whiteColor ?? 0,
+    bulbIds: devices.map(device => device.bulbId),
+  };
+}
+
+/**
+ * TuoLife Room
+ * An instance of this class is created for each room (TuoLife group) the platform registers.
+ * The TuoLife API controls lights per group, so a room is the natural unit to switch and dim.
+ */
+export class TuoLifeRoomAccessory {
+  private service: Service;
+  private effectServices: Map<string, Service>;
+  // Switch that starts and cancels the sleep timer of the group, only while turned on in config
+  private sleepTimerService?: Service;
+  // settings of this room from config
+  private readonly override: AccessoryOverride;
+  // hue and saturation written together are sent as one color
+  private readonly writeColor: ColorWriter;
+  private lastChanged: number = 0;
+  // false while HomeKit shows the room as not responding
+  private reachable = true;
+
+  constructor(
+    private readonly platform: TuoLifeHomebridgePlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    this.override = this.platform.getRoomOverride(accessory.context.room.groupId, this.getAccountId());
+
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'TuoLife')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Room')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, accessory.context.room.groupId);
+
+    this.service = this.accessory.getService(this.platform.Service.Lightbulb) || this.accessory.addService(this.platform.Service.Lightbulb);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.getDisplayName());
+    if (this.accessory.displayName !== this.getDisplayName()) {
+      this.accessory.displayName = this.getDisplayName();
+    }
+    // a minimum brightness in config limits the slider in HomeKit
+    if (this.override.minBrightness > 0) {
+      this.service.getCharacteristic(this.platform.Characteristic.Brightness).setProps({ minValue: this.override.minBrightness });
+    }
+    if (!this.override.color) {
+      removeColorCharacteristics(this.service, this.platform.Characteristic);
+    }
+    this.writeColor = createColorWriter(this.service, this.platform.Characteristic);
+
+    this.platform.log.debug('Room Constructor: ', this.getGroupName());
+
+    // Set current state without triggering the set handlers
+    this.updateHomeKitCharacteristics();
+    this.rememberOnState();
+
+    // register handlers for the On/Off Characteristic
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setOn.bind(this))
+      .onGet(this.getOn.bind(this));
+
+    // register handlers for the Brightness Characteristic
+    this.service.getCharacteristic(this.platform.Characteristic.Brightness)
+      .onSet(this.setBrightness.bind(this));
+
+    // register handlers for the Hue and Saturation Characteristics
+    if (this.override.color) {
+      this.service.getCharacteristic(this.platform.Characteristic.Hue)
+        .onSet(this.setHue.bind(this));
+      this.service.getCharacteristic(this.platform.Characteristic.Saturation)
+        .onSet(this.setSaturation.bind(this));
+    }
+
+    // expose every configured effect as a named switch
+    this.effectServices = configureEffectSwitches(this.platform, this.accessory, () => this.getGroupId());
+    this.sleepTimerService = configureSleepTimerSwitch(this.platform, this.accessory, this.service, () => this.getGroupId());
+    configureUsageCharacteristics(this.platform, this.service, 'room', () => this.getGroupId());
+
+    // report an unreachable cloud with StatusFault when turned on in config
+    configureOptionalCharacteristic(this.service, this.platform.Characteristic.StatusFault, this.platform.statusFault);
+    this.updateAvailability();
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   */
+  async setOn(value: CharacteristicValue) {
+    this.assertReachable();
+    if (value && this.getModeId() !== deviceModes.off) {
+      // already on, keep the running mode
+      return;
+    }
+    // turning on follows the configured power-on behavior, turning off keeps brightness and color for next time
+    this.sendRoomUpdate(value ? this.getPowerOnState() : { modeId: deviceModes.off });
+    this.platform.log.debug('Set Room Characteristic On ->', value);
+  }
+
+  /**
+   * Handle the "GET" requests from HomeKit
+   * Returns the cached room state, the periodic sync keeps it up to date.
+   */
+  async getOn(): Promise<CharacteristicValue> {
+    this.assertReachable();
+    return this.getModeId() !== deviceModes.off;
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   */
+  async setBrightness(value: CharacteristicValue) {
+    this.assertReachable();
+    this.sendRoomUpdate({
+      modeId: this.getOnModeId(),
+      brightness: Math.max(this.override.minBrightness, Number(value)),
+    });
+    this.platform.log.debug('Set Room Characteristic Brightness -> ', value);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   * The other half of the color is the one written with it or the current characteristic value.
+   */
+  async setHue(value: CharacteristicValue) {
+    this.assertReachable();
+    this.setColor({ hue: Number(value) });
+    this.platform.log.debug('Set Room Characteristic Hue -> ', value);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit
+   */
+  async setSaturation(value: CharacteristicValue) {
+    this.assertReachable();
+    this.setColor({ saturation: Number(value) });
+    this.platform.log.debug('Set Room Characteristic Saturation -> ', value);
+  }
+
+  // A color set by hand ends adaptive lighting on the bulbs, its next step would replace the color
+  private setColor(changes: Partial<HueSaturation>) {
+    const { hue, saturation } = this.writeColor(changes);
+    this.platform.disableAdaptiveLighting(this.getGroupId());
+    this.sendRoomUpdate({
+      modeId: this.getOnModeId(),
+      ...hueSaturationToChannels(hue, saturation),
+    });
+  }
+
+  // State the room is turned on with
+  getPowerOnState(): TuoLifeLightState {
+    return this.platform.getPowerOnState(this.getGroupId(), this.getLightState(), this.accessory.context.lastOn, this.override);
+  }
+
+  // The running mode, or the mode the room is turned on with when a change turns it on
+  private getOnModeId(): string {
+    return this.getModeId() !== deviceModes.off ? this.getModeId() : this.getPowerOnState().modeId;
+  }
+
+  // Keep the last state the room was on with, it is restored when the room is turned on again
+  private rememberOnState() {
+    if (this.getModeId() !== deviceModes.off) {
+      this.accessory.context.lastOn = this.getLightState();
+    }
+  }
+
+  /**
+   * Post the room state with the given changes, the platform passes it on to every bulb of the group.
+   * The HomeKit write is done once the update is queued, debounce, rate limit and retries can take longer than HomeKit waits.
+   * A failure shows up afterwards: the platform rolls the state back and the room reports No Response.
+   */
+  private sendRoomUpdate(changes: Partial<TuoLifeGroupUpdate>) {
+    this.send(changes).catch(error => this.reportFailure(error));
+  }
+
+  /**
+   * Report a failed update to HomeKit after the platform rolled the state back. The error stays on On until it gets a value,
+   * updateIfChanged skips a later state that is the same, so the rolled back state is pushed again unless the room is unreachable.
+   */
+  private reportFailure(error: unknown) {
+    this.service.updateCharacteristic(this.platform.Characteristic.On, error as Error);
+    if (this.platform.isCloudReachable(this.getGroupId())) {
+      this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== deviceModes.off);
+    }
+  }
+
+  // Send the room state with the given changes and wait for the server, a failure is thrown as the error HomeKit shows as No Response
+  private async send(changes: Partial<TuoLifeGroupUpdate>) {
+    this.lastChanged = Date.now();
+    const update: TuoLifeGroupUpdate = {
+      groupId: this.getGroupId(),
+      modeId: this.getModeId(),
+      brightness: this.getBrightness(),
+      ...this.getColorChannels(),
+      ...changes,
+    };
+    try {
+      await this.platform.sendBulbUpdateToServer(update);
+      this.platform.log.debug('Successfully sent room update to server', update);
+    } catch (error) {
+      this.platform.log.error('Error sending room update to server:', error);
+      this.platform.log.debug('Room body:', update);
+      throw this.platform.communicationFailure();
+    }
+  }
+
+  /**
+   * Apply several changes in one update and wait until the server has it, e.g. from the HTTP API.
+   * A new color ends adaptive lighting on the bulbs like the same change made in HomeKit.
+   */
+  async setState(changes: Partial<TuoLifeLightState>) {
+    this.assertReachable();
+    if (COLOR_CHANNELS.some(channel => changes[channel] !== undefined)) {
+      this.platform.disableAdaptiveLighting(this.getGroupId());
+    }
+    await this.send(changes.brightness !== undefined
+      ? { ...changes, brightness: Math.max(this.override.minBrightness, changes.brightness) }
+      : changes);
+  }
+
+  // Reflect the effect running on the group on the effect switches
+  updateEffectSwitches(): boolean {
+    return updateEffectSwitches(this.platform, this.effectServices, this.getGroupId());
+  }
+
+  // Reflect the sleep timer of the group on its switch
+  updateSleepTimerSwitch(): boolean {
+    return updateSleepTimerSwitch(this.platform, this.sleepTimerService, this.getGroupId());
+  }
+
+  // Record the state HomeKit shows in the usage history and show the new totals
+  recordUsage() {
+    this.platform.usageHistory?.record('room', this.getGroupId(), this.getLightState());
+    updateUsageCharacteristics(this.platform, this.service, 'room', this.getGroupId());
+  }
+
+  /**
+   * A room is controlled through the cloud as a whole, it shows "No Response" while the cloud is down
+   */
+  updateAvailability() {
+    const reachable = this.platform.isCloudReachable(this.getGroupId());
+    if (this.platform.statusFault) {
+      const Characteristic = this.platform.Characteristic;
+      updateIfChanged(this.service, Characteristic.StatusFault,
+        reachable ? Characteristic.StatusFault.NO_FAULT : Characteristic.StatusFault.GENERAL_FAULT);
+    }
+    if (reachable !== this.reachable) {
+      this.reachable = reachable;
+      if (reachable) {
+        this.service.updateCharacteristic(this.platform.Characteristic.On, this.getModeId() !== deviceModes.off);
+      } else {
+        this.service.updateCharacteristic(this.platform.Characteristic.On, this.platform.communicationFailure());
+      }
+    }
+  }
+
+  private assertReachable() {
+    if (!this.platform.isCloudReachable(this.getGroupId())) {
+      throw this.platform.communicationFailure();
+    }
+  }
+
+  // Apply state changed through this room or one of its bulbs, or the last confirmed state after a failed update
+  applyState(state: Partial<TuoLifeGroupUpdate>, origin: UpdateOrigin = 'manual', rollback = false) {
+    Object.assign(this.accessory.context.room, state);
+    // a rolled back state is no local change, the next sync may overwrite it right away
+    this.lastChanged = rollback ? 0 : Date.now();
+    // the steps of effects and of the fade of a sleep timer are no state to turn the room back on with
+    if (origin !== 'effect' && origin !== 'sleepTimer') {
+      this.rememberOnState();
+    }
+    this.updateHomeKitCharacteristics();
+  }
+
+  /**
+   * Apply the name received from the server, returns the fields that changed
+   */
+  updateInfo(room: TuoLifeRoomDevice): Array<keyof TuoLifeRoomDevice> {
+    const current = this.accessory.context.room;
+    const changed = (['groupName', 'userId'] as const).filter(key => current[key] !== room[key]);
+    for (const key of changed) {
+      current[key] = room[key];
+    }
+    // a name set in config wins over the name from the TuoLife app
+    if (changed.includes('groupName') && !this.override.name) {
+      this.accessory.displayName = room.groupName;
+      this.service.updateCharacteristic(this.platform.Characteristic.Name, room.groupName);
+    }
+    return changed;
+  }
+
+  /**
+   * Apply the room state received from the server during a sync.
+   * A change made in HomeKit moments ago wins, the server may not have caught up with it yet.
+   */
+  updateFromServer(room: TuoLifeRoomDevice) {
+    const sinceChange = Date.now() - this.lastChanged;
+    if (sinceChange < SYNC_GRACE_PERIOD) {
+      this.platform.log.debug(`Keeping local state of room ${this.getGroupName()}, changed ${sinceChange} ms ago`);
+      return;
+    }
+    if (this.platform.hasPendingUpdate(this.getGroupId())) {
+      this.platform.log.debug(`Keeping local state of room ${this.getGroupName()}, an update is pending`);
+      return;
+    }
+    const current = this.accessory.context.room;
+    const changed = (['modeId', 'brightness', ...COLOR_CHANNELS] as const).filter(key => current[key] !== room[key]);
+    current.bulbIds = room.bulbIds;
+    if (changed.length === 0) {
+      return;
+    }
+    this.platform.log.debug(`Server changed ${changed.join(', ')} of room ${this.getGroupName()}`);
+    for (const key of changed) {
+      current[key] = room[key];
+    }
+    this.rememberOnState();
+    this.updateHomeKitCharacteristics();
+  }
+
+  // Push the room state to HomeKit, only characteristics whose value changed are updated
+  async updateHomeKitCharacteristics() {
+    const Characteristic = this.platform.Characteristic;
+    const { hue, saturation } = channelsToHueSaturation(this.getColorChannels());
+    const changed = [
+      updateIfChanged(this.service, Characteristic.On, this.getModeId() !== deviceModes.off),
+      updateIfChanged(this.service, Characteristic.Brightness, Math.max(this.override.minBrightness, this.getBrightness())),
+      ...(this.override.color ? [
+        updateIfChanged(this.service, Characteristic.Hue, hue),
+        updateIfChanged(this.service, Characteristic.Saturation, saturation),
+      ] : []),
+    ].some(Boolean);
+
+    if (changed) {
+      this.platform.log.debug('Updated HomeKit Characteristics for room', this.getGroupName());
+    }
+  }
+
+  // Getter methods for room properties
+  getGroupId(): string {
+    return this.accessory.context.room.groupId;
+  }
+
+  // Id of the TuoLife account of the room, empty for the account at the top of the config
+  getAccountId(): string {
+    return this.accessory.context.account ?? '';
+  }
+
+  getGroupName(): string {
+    return this.accessory.context.room.groupName;
+  }
+
+  getModeId(): string {
+    return this.accessory.context.room.modeId;
+  }
+
+  // Name in HomeKit, from config or the TuoLife app
+  getDisplayName(): string {
+    return this.override.name ?? this.getGroupName();
+  }
+
+  getBrightness(): number {
+    return this.accessory.context.room.brightness;
+  }
+
+  getBulbIds(): string[] {
+    return this.accessory.context.room.bulbIds;
+  }
+
+  getLightState(): TuoLifeLightState {
+    return { modeId: this.getModeId(), brightness: this.getBrightness(), ...this.getColorChannels() };
+  }
+
+  getColorChannels(): TuoLifeColorChannels {
+    const room = this.accessory.context.room;
+    return {
+      red: room.red,
+      green: room.green,
+      blue: room.blue,
+      violet: room.violet,
+      whiteColor: room.whiteColor,
+    };
+  }
+}
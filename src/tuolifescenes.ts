@@ -0,0 +1,112 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import type { TuoLifeSceneStore } from './scenestore.js';
+import { TuoLifeScene } from './types.js';
+
+// subtype prefixes of the Switch services that recall and save a scene
+const RECALL_SUBTYPE_PREFIX = 'scene-';
+const SAVE_SUBTYPE_PREFIX = 'save-';
+
+// milliseconds until a scene switch turns itself off again
+const SWITCH_RESET_DELAY = 1000;
+
+/**
+ * TuoLife Scenes
+ * One accessory with a stateless switch per configured scene, which recalls the saved state of every room,
+ * and optionally a second switch that saves the current state under that scene.
+ * Unlike HomeKit scenes these include the mode and the violet and white channels.
+ */
+export class TuoLifeScenesAccessory {
+
+  constructor(
+    private readonly platform: TuoLifeHomebridgePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly store: TuoLifeSceneStore,
+  ) {
+
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'TuoLife')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Scenes')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, 'scenes');
+
+    const subtypes = this.platform.scenes.flatMap(scene => [
+      RECALL_SUBTYPE_PREFIX + scene.id,
+      ...(this.platform.sceneSaveSwitches ? [SAVE_SUBTYPE_PREFIX + scene.id] : []),
+    ]);
+    for (const service of [...this.accessory.services]) {
+      if (service.UUID === this.platform.Service.Switch.UUID && service.subtype && !subtypes.includes(service.subtype)) {
+        this.platform.log.debug('Removing scene switch:', service.displayName);
+        this.accessory.removeService(service);
+      }
+    }
+
+    for (const scene of this.platform.scenes) {
+      this.addSwitch(RECALL_SUBTYPE_PREFIX + scene.id, scene.name, () => this.recall(scene));
+      if (this.platform.sceneSaveSwitches) {
+        this.addSwitch(SAVE_SUBTYPE_PREFIX + scene.id, `Save ${scene.name}`, () => this.save(scene));
+      }
+    }
+  }
+
+  // Add a switch that runs the action when turned on and then turns itself off
+  private addSwitch(subtype: string, name: string, action: () => Promise<void>) {
+    const service: Service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+      || this.accessory.addService(this.platform.Service.Switch, name, subtype);
+    service.setCharacteristic(this.platform.Characteristic.Name, name);
+    service.updateCharacteristic(this.platform.Characteristic.On, false);
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(async (value: CharacteristicValue) => {
+        if (!value) {
+          return;
+        }
+        try {
+          await action();
+        } finally {
+          setTimeout(() => service.updateCharacteristic(this.platform.Characteristic.On, false), SWITCH_RESET_DELAY);
+        }
+      });
+  }
+
+  /**
+   * Queue the saved state for every room of the scene, one request per room.
+   * Like the light handlers this is done once the updates are queued, with the minimum interval between requests
+   * sending them can take longer than HomeKit waits. Rooms that fail are rolled back by the platform and logged here.
+   */
+  async recall(scene: TuoLifeScene) {
+    const snapshot = await this.store.get(scene.id);
+    if (!snapshot) {
+      this.platform.log.warn(`Scene ${scene.name} has not been saved yet`);
+      return;
+    }
+    // rooms of accounts whose cloud is down count as failed, the others are still recalled
+    const groups = Object.entries(snapshot.groups);
+    if (!groups.some(([groupId]) => this.platform.isCloudReachable(groupId))) {
+      throw this.platform.communicationFailure();
+    }
+
+    this.platform.log.info(`Recalling scene ${scene.name} for ${groups.length} rooms`);
+    const sent = groups.map(async ([groupId, state]) => {
+      if (!this.platform.isCloudReachable(groupId)) {
+        throw this.platform.communicationFailure();
+      }
+      await this.platform.sendBulbUpdateToServer({ groupId, ...state });
+    });
+    void Promise.allSettled(sent).then(results => {
+      const failed = results.filter(result => result.status === 'rejected').length;
+      if (failed > 0) {
+        this.platform.log.error(`Recalling scene ${scene.name} failed for ${failed} rooms`);
+      }
+    });
+  }
+
+  /**
+   * Save the current state of every room under the scene
+   */
+  async save(scene: TuoLifeScene) {
+    const groups = this.platform.getGroupStates();
+    await this.store.set(scene.id, { savedAt: Date.now(), groups });
+    this.platform.log.info(`Saved scene ${scene.name} for ${Object.keys(groups).length} rooms`);
+  }
+}
@@ -0,0 +1,105 @@
+import type { Logging } from 'homebridge';
+
+import { promises as fs } from 'node:fs';
+
+import type { TuoLifeApiClient, TuoLifeCredentials } from './tuolifeapi.js';
+
+// Token as persisted in the storage path
+type StoredToken = {
+  username: string;
+  token: string;
+  expiresAt?: number;
+};
+
+// log in again this long before the token expires
+const EXPIRY_MARGIN = 60000;
+
+/**
+ * TuoLife Session
+ * Logs in with the account credentials, keeps the token in Homebridge's storage path
+ * and logs in again when it expires or the server rejects it.
+ * Neither the password nor the token are ever logged.
+ */
+export class TuoLifeSession implements TuoLifeCredentials {
+  private token?: StoredToken;
+  private loading?: Promise<void>;
+  private pendingLogin?: Promise<string>;
+
+  constructor(
+    private readonly client: TuoLifeApiClient,
+    private readonly username: string,
+    private readonly password: string,
+    private readonly tokenFile: string,
+    private readonly log: Logging,
+  ) {}
+
+  async getToken(): Promise<string> {
+    await (this.loading ??= this.load());
+    if (this.token && !this.isExpiring(this.token)) {
+      return this.token.token;
+    }
+    // requests arriving during a login wait for the same login
+    this.pendingLogin ??= this.login().finally(() => {
+      this.pendingLogin = undefined;
+    });
+    return this.pendingLogin;
+  }
+
+  invalidateToken(): boolean {
+    this.token = undefined;
+    return true;
+  }
+
+  private isExpiring(token: StoredToken): boolean {
+    return token.expiresAt !== undefined && token.expiresAt - EXPIRY_MARGIN <= Date.now();
+  }
+
+  private async login(): Promise<string> {
+    this.log.info('Logging in to TuoLife as', this.username);
+    const result = await this.client.login(this.username, this.password);
+    this.token = { username: this.username, ...result };
+    if (result.expiresAt) {
+      this.log.debug('TuoLife token valid until', new Date(result.expiresAt).toISOString());
+    }
+    await this.save();
+    return result.token;
+  }
+
+  // A token saved for another account is ignored
+  private async load() {
+    try {
+      const stored: StoredToken = JSON.parse(await fs.readFile(this.tokenFile, 'utf8'));
+      if (stored.username === this.username && typeof stored.token === 'string') {
+        this.token = stored;
+        this.log.debug('Loaded saved TuoLife token for', this.username);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn('Could not read saved TuoLife token, logging in again:', (error as Error).message);
+      }
+    }
+  }
+
+  private async save() {
+    try {
+      await fs.writeFile(this.tokenFile, JSON.stringify(this.token), { mode: 0o600 });
+    } catch (error) {
+      this.log.warn('Could not save TuoLife token:', (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Fixed Authorization header value copied from the TuoLife app, it can't be renewed
+ */
+export class TuoLifeApiKey implements TuoLifeCredentials {
+  constructor(private readonly apiKey: string) {}
+
+  async getToken(): Promise<string> {
+    return this.apiKey;
+  }
+
+  invalidateToken(): boolean {
+    return false;
+  }
+}
@@ -1,8 +1,11 @@
-// TuoLife Rooms
+import type { ActiveAdaptiveLightingTransition } from 'homebridge';
+
+// TuoLife Rooms, as normalized from the roomsByUser response
 export type TuolifeRoom = {
     groupName: string,
     roomDefaults: object[],
-    brightness: string,
+    // undefined when the server doesn't send one, the room then takes the average of its bulbs
+    brightness?: number,
     id: string,
     userId: string,
     modeId: string,
@@ -28,6 +31,123 @@ export type TuoLifeBulbDevice = {
   whiteColor: number;
 }; 
 
+// Color channels of a tuolife device, each 0-100
+export type TuoLifeColorChannels = Pick<TuoLifeBulbDevice, 'red' | 'green' | 'blue' | 'violet' | 'whiteColor'>;
+
+// State sent to the server with roomModeStart, it always applies to a whole group
+export type TuoLifeGroupUpdate = TuoLifeColorChannels & {
+  groupId: string;
+  modeId: string;
+  brightness: number;
+};
+
+// Aggregate state of a room, all bulbs of a room share its groupId
+export type TuoLifeRoomDevice = TuoLifeGroupUpdate & {
+  groupName: string;
+  userId: string;
+  bulbIds: string[];
+};
+
+// Tracks an accessory that is no longer returned by the server
+export type MissingState = {
+  // successful responses in a row without the accessory
+  count: number;
+  // epoch millis of the first response without the accessory
+  since: number;
+};
+
+// Adaptive lighting transition as serialized by the HAP AdaptiveLightingController
+export type AdaptiveLightingState = {
+  activeTransition: ActiveAdaptiveLightingTransition;
+};
+
+// Mode, brightness and color of a light, without the group it belongs to
+export type TuoLifeLightState = Omit<TuoLifeGroupUpdate, 'groupId'>;
+
+// What a light does when it is turned on in HomeKit
+export type PowerOnBehavior = 'restore' | 'default' | 'roomDefault';
+
+// Settings of a single bulb or room from the devices and rooms lists in config
+export type AccessoryOverride = {
+  // keep the bulb or room out of HomeKit
+  exclude: boolean;
+  // name in HomeKit instead of the one from the TuoLife app
+  name?: string;
+  // expose the Lightbulb service, bulbs only
+  lightbulb: boolean;
+  // expose the mode switches, bulbs only
+  modeSwitches: boolean;
+  // expose hue, saturation, color temperature and adaptive lighting
+  color: boolean;
+  // expose the violet and white channels as lights of their own, bulbs only
+  channels: boolean;
+  powerOn?: PowerOnBehavior;
+  // lowest brightness that can be set in HomeKit, 0 for no limit
+  minBrightness: number;
+  // minutes before the light is turned off after it was turned on, 0 for never, undefined for the global setting
+  sleepTimer?: number;
+};
+
+// What a manual change of a light does to its running sleep timer
+export type SleepTimerChangeBehavior = 'keep' | 'restart' | 'cancel';
+
+// Recording how long lights are on, for statistics and an energy estimate
+export type TuoLifeUsageConfig = {
+  enabled: boolean;
+  // milliseconds transitions are kept
+  retention: number;
+  // watts of a bulb at full brightness by generation, and for generations not listed
+  wattage: Record<string, number>;
+  defaultWattage: number;
+};
+
+// Turning lights off a set time after they were turned on
+export type TuoLifeSleepTimerConfig = {
+  // milliseconds after turning on, 0 to only start timers from HomeKit
+  duration: number;
+  // milliseconds before the end the brightness starts going down, 0 to turn off at once
+  fade: number;
+  onChange: SleepTimerChangeBehavior;
+  // expose a Switch with SetDuration and RemainingDuration to start and cancel timers from HomeKit
+  switches: boolean;
+};
+
+// Point of an effect, the state of the lights the given number of seconds after the start
+export type TuoLifeKeyframe = TuoLifeLightState & {
+  time: number;
+};
+
+// Timed effect run by the plugin, brightness and color are interpolated between the keyframes
+export type TuoLifeEffect = {
+  id: string;
+  name: string;
+  // keyframes sorted by time, the first one at 0
+  keyframes: TuoLifeKeyframe[];
+  // start over after the last keyframe until stopped
+  loop: boolean;
+  // seconds between two steps, undefined for the configured default
+  stepInterval?: number;
+};
+
+// Named scene that can be saved and recalled from HomeKit
+export type TuoLifeScene = {
+  id: string;
+  name: string;
+};
+
+// Saved state of a scene, the state of every group by groupId
+export type TuoLifeSceneSnapshot = {
+  // epoch millis
+  savedAt: number;
+  groups: Record<string, TuoLifeLightState>;
+};
+
+// TuoLife mode that can be selected in HomeKit
+export type TuoLifeMode = {
+  id: string;
+  name: string;
+};
+
 export const deviceModes = {
   off: 'off',
   on: 'calm5',
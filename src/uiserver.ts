@@ -0,0 +1,133 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+
+import { TuoLifeAuthError } from './errors.js';
+import { TuoLifeApiClient } from './tuolifeapi.js';
+import { createRoomState } from './tuoliferoom.js';
+import { TuoLifeApiKey } from './tuolifesession.js';
+import { deviceModes } from './types.js';
+
+export type TuoLifeUiOptions = {
+  // milliseconds every on and off of a flash lasts
+  flashDuration?: number;
+};
+
+// Account fields of the settings page, sent with every request since nothing is saved before the user does
+type UiAccountRequest = {
+  username?: string;
+  password?: string;
+  apiKey?: string;
+  apiBaseUrl?: string;
+};
+
+// The bulbs and rooms requests take the account, the flash request a room of it as well
+type UiFlashRequest = UiAccountRequest & {
+  groupId?: string;
+};
+
+const DEFAULT_FLASH_DURATION = 700;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Log in with the account of the page, the same way the platform does
+async function connect(request: UiAccountRequest): Promise<TuoLifeApiClient> {
+  const client = new TuoLifeApiClient({ baseUrl: text(request?.apiBaseUrl), retries: 1 });
+  const username = text(request?.username);
+  const password = typeof request?.password === 'string' && request.password ? request.password : undefined;
+  const apiKey = text(request?.apiKey);
+  if (username && password) {
+    const { token } = await client.login(username, password);
+    client.credentials = new TuoLifeApiKey(token);
+  } else if (apiKey) {
+    client.credentials = new TuoLifeApiKey(apiKey);
+  } else {
+    throw new RequestError('Enter the email address and password of your TuoLife account', { status: 400 });
+  }
+  return client;
+}
+
+// Errors are shown on the page, a rejected login gets a message the user can act on
+async function handle<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof RequestError) {
+      throw error;
+    }
+    if (error instanceof TuoLifeAuthError) {
+      throw new RequestError('TuoLife did not accept the login, check the email address and password', { status: error.status });
+    }
+    throw new RequestError(`TuoLife could not be reached: ${(error as Error).message}`, { status: 502 });
+  }
+}
+
+// Rooms with their bulbs as the settings page lists them
+async function listRooms(request: UiAccountRequest) {
+  const client = await connect(request);
+  const rooms = await client.roomsByUser();
+  return rooms.map(room => {
+    const state = createRoomState(room);
+    return {
+      groupId: state.groupId,
+      name: state.groupName,
+      on: state.modeId !== deviceModes.off,
+      bulbs: room.devices.map(device => ({
+        bulbId: String(device.bulbId),
+        name: device.nickname,
+        generation: device.generation,
+        isAvailable: device.isAvailable,
+      })),
+    };
+  });
+}
+
+// Flash a room twice at full brightness so the user can tell which lights it is, then restore its state
+async function flashRoom(request: UiFlashRequest, flashDuration: number) {
+  const groupId = text(request?.groupId);
+  if (!groupId) {
+    throw new RequestError('groupId of the room is missing', { status: 400 });
+  }
+  const client = await connect(request);
+  const room = (await client.roomsByUser()).find(known => known.id === groupId);
+  if (!room) {
+    throw new RequestError(`No room ${groupId} in the TuoLife account`, { status: 404 });
+  }
+  const state = createRoomState(room);
+  const flash = { ...state, modeId: deviceModes.on, brightness: 100 };
+  try {
+    for (let count = 0; count < 2; count++) {
+      await client.roomModeStart(flash);
+      await sleep(flashDuration);
+      await client.roomModeStart({ ...state, modeId: deviceModes.off });
+      await sleep(flashDuration);
+    }
+  } finally {
+    if (state.modeId !== deviceModes.off) {
+      await client.roomModeStart(state);
+    }
+  }
+  return { groupId };
+}
+
+/**
+ * Register the requests of the custom settings page, see homebridge-ui/public/index.html
+ */
+export function registerUiRequests(server: Pick<HomebridgePluginUiServer, 'onRequest'>, options: TuoLifeUiOptions = {}) {
+  const flashDuration = options.flashDuration ?? DEFAULT_FLASH_DURATION;
+  server.onRequest('/rooms', (request: UiAccountRequest) => handle(() => listRooms(request)));
+  server.onRequest('/flash', (request: UiFlashRequest) => handle(() => flashRoom(request, flashDuration)));
+}
+
+/**
+ * TuoLife Settings Page Server
+ * Started by the Homebridge UI as a child process for the custom settings page.
+ * Signs in to TuoLife with the account entered on the page, lists its rooms and bulbs and flashes them.
+ */
+export class TuoLifeUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+    registerUiRequests(this);
+    this.ready();
+  }
+}
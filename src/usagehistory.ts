@@ -0,0 +1,282 @@
+import type { Characteristic, CharacteristicProps, HAP, Logging, Service, WithUUID } from 'homebridge';
+
+import { promises as fs, writeFileSync } from 'node:fs';
+
+import type { TuoLifeHomebridgePlatform } from './platform.js';
+import { USAGE_SAVE_DELAY } from './settings.js';
+import { TuoLifeLightState, deviceModes } from './types.js';
+import { configureOptionalCharacteristic, updateIfChanged } from './util.js';
+
+export type UsageKind = 'bulb' | 'room';
+
+// A change of a light, recorded when its mode or brightness differ from the change before, time in epoch millis
+export type UsageTransition = {
+  time: number;
+  modeId: string;
+  // 0 while the light is off
+  brightness: number;
+};
+
+// Usage of a light over a period, times in seconds and the energy estimate in watt hours
+export type UsageStats = {
+  onTime: number;
+  averageBrightness: number;
+  modes: Record<string, number>;
+  energy: number;
+};
+
+export type TuoLifeUsageHistoryOptions = {
+  // milliseconds transitions are kept
+  retention: number;
+  // watts of a light at full brightness, the energy estimate scales them with the brightness
+  getWattage(kind: UsageKind, id: string): number;
+  log: Logging;
+};
+
+// Characteristics with the usage of a light, added to its Lightbulb service
+export type UsageCharacteristics = Record<'currentConsumption' | 'todayConsumption' | 'onTimeToday', WithUUID<new () => Characteristic>>;
+
+const USAGE_KINDS: UsageKind[] = ['bulb', 'room'];
+
+// Eve shows this as the power of a light
+const EVE_CURRENT_CONSUMPTION_UUID = 'E863F10D-079E-48FF-8F27-9C2605A29F52';
+// Eve lists characteristics it doesn't know with their name, its Total Consumption has to keep growing and can't hold today's energy
+const ENERGY_TODAY_UUID = '3F9A6D21-5C4B-4E8A-B1D7-8A2C6E0F4B93';
+const ON_TIME_TODAY_UUID = '6C1B2E4A-8F0D-4C3B-9A57-2E7D4F1A9C61';
+const USAGE_CHARACTERISTIC_UUIDS = [EVE_CURRENT_CONSUMPTION_UUID, ENERGY_TODAY_UUID, ON_TIME_TODAY_UUID];
+// Eve Total Consumption, cached accessories may still carry it from when it held today's energy
+const EVE_TOTAL_CONSUMPTION_UUID = 'E863F10C-079E-48FF-8F27-9C2605A29F52';
+
+// Start of the local day the time is in, and of the day after it
+const startOfDay = (time: number) => new Date(time).setHours(0, 0, 0, 0);
+const startOfNextDay = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+// Local date of the time as YYYY-MM-DD
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+};
+
+const isTransition = (value: unknown): value is UsageTransition => typeof value === 'object' && value !== null
+  && typeof (value as UsageTransition).time === 'number' && typeof (value as UsageTransition).modeId === 'string'
+  && typeof (value as UsageTransition).brightness === 'number';
+
+// Usage between two times, every transition lasts until the next one and the last one until the end
+function summarize(transitions: UsageTransition[], from: number, to: number, watts: number): UsageStats {
+  const stats: UsageStats = { onTime: 0, averageBrightness: 0, modes: {}, energy: 0 };
+  let brightnessSeconds = 0;
+  transitions.forEach((transition, index) => {
+    const start = Math.max(from, transition.time);
+    const end = Math.min(to, transitions[index + 1]?.time ?? to);
+    if (end <= start || transition.modeId === deviceModes.off) {
+      return;
+    }
+    const seconds = (end - start) / 1000;
+    stats.onTime += seconds;
+    brightnessSeconds += seconds * transition.brightness;
+    stats.modes[transition.modeId] = (stats.modes[transition.modeId] ?? 0) + seconds;
+    stats.energy += watts * transition.brightness / 100 * seconds / 3600;
+  });
+
+  if (stats.onTime > 0) {
+    stats.averageBrightness = Math.round(brightnessSeconds / stats.onTime);
+  }
+  stats.onTime = Math.round(stats.onTime);
+  for (const modeId of Object.keys(stats.modes)) {
+    stats.modes[modeId] = Math.round(stats.modes[modeId]);
+  }
+  stats.energy = Math.round(stats.energy * 100) / 100;
+  return stats;
+}
+
+/**
+ * TuoLife Usage History
+ * Records the on/off, brightness and mode transitions of every bulb and room in a JSON file in Homebridge's storage path,
+ * and sums them up into on-time, average brightness, time per mode and an energy estimate.
+ * Transitions older than the retention are dropped, the last one before keeps the state at its start.
+ */
+export class TuoLifeUsageHistory {
+  private history: Record<UsageKind, Record<string, UsageTransition[]>> = { bulb: {}, room: {} };
+  private saveTimeout?: NodeJS.Timeout;
+
+  constructor(
+    private readonly file: string,
+    private readonly options: TuoLifeUsageHistoryOptions,
+  ) {}
+
+  // Record the state of a light, returns false when it didn't change since the last transition
+  record(kind: UsageKind, id: string, state: TuoLifeLightState, time = Date.now()): boolean {
+    const transitions = this.history[kind][id] ??= [];
+    const brightness = state.modeId === deviceModes.off ? 0 : state.brightness;
+    const last = transitions.at(-1);
+    if (last && last.modeId === state.modeId && last.brightness === brightness) {
+      return false;
+    }
+    transitions.push({ time, modeId: state.modeId, brightness });
+    this.scheduleSave();
+    return true;
+  }
+
+  getStats(kind: UsageKind, id: string, from: number, to = Date.now()): UsageStats {
+    return summarize(this.history[kind][id] ?? [], from, to, this.options.getWattage(kind, id));
+  }
+
+  getToday(kind: UsageKind, id: string): UsageStats {
+    const now = Date.now();
+    return this.getStats(kind, id, startOfDay(now), now);
+  }
+
+  // Estimated watts the light draws right now
+  getCurrentWattage(kind: UsageKind, id: string): number {
+    const brightness = this.history[kind][id]?.at(-1)?.brightness ?? 0;
+    return Math.round(this.options.getWattage(kind, id) * brightness / 10) / 10;
+  }
+
+  // Usage of every light per day over the retention, with the transitions it was summed up from
+  export() {
+    this.prune();
+    const now = Date.now();
+    const describe = (kind: UsageKind) => Object.entries(this.history[kind]).map(([id, transitions]) => {
+      const days: Array<UsageStats & { date: string }> = [];
+      for (let day = startOfDay(transitions[0]?.time ?? now); day < now; day = startOfNextDay(day)) {
+        days.push({ date: formatDate(day), ...this.getStats(kind, id, day, Math.min(startOfNextDay(day), now)) });
+      }
+      return { id, wattage: this.options.getWattage(kind, id), days, transitions };
+    });
+    return { exportedAt: new Date(now).toISOString(), bulbs: describe('bulb'), rooms: describe('room') };
+  }
+
+  // Read the history recorded before the last restart, transitions recorded since then stay after it
+  async load() {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(await fs.readFile(this.file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.options.log.warn('Could not read usage history:', (error as Error).message);
+      }
+      return;
+    }
+    for (const kind of USAGE_KINDS) {
+      const lights = (stored as Record<string, unknown>)?.[kind];
+      if (typeof lights !== 'object' || lights === null) {
+        continue;
+      }
+      for (const [id, transitions] of Object.entries(lights)) {
+        if (Array.isArray(transitions)) {
+          this.history[kind][id] = [...transitions.filter(isTransition), ...this.history[kind][id] ?? []];
+        }
+      }
+    }
+    this.prune();
+  }
+
+  // Write pending changes right away, Homebridge doesn't wait for a write started on shutdown
+  flush() {
+    if (!this.saveTimeout) {
+      return;
+    }
+    clearTimeout(this.saveTimeout);
+    this.saveTimeout = undefined;
+    this.prune();
+    try {
+      writeFileSync(this.file, JSON.stringify(this.history));
+    } catch (error) {
+      this.options.log.warn('Could not save usage history:', (error as Error).message);
+    }
+  }
+
+  private scheduleSave() {
+    this.saveTimeout ??= setTimeout(async () => {
+      this.saveTimeout = undefined;
+      this.prune();
+      try {
+        await fs.writeFile(this.file, JSON.stringify(this.history));
+      } catch (error) {
+        this.options.log.warn('Could not save usage history:', (error as Error).message);
+      }
+    }, USAGE_SAVE_DELAY * 1000);
+  }
+
+  private prune() {
+    const cutoff = Date.now() - this.options.retention;
+    for (const kind of USAGE_KINDS) {
+      for (const transitions of Object.values(this.history[kind])) {
+        const kept = transitions.findIndex(transition => transition.time >= cutoff);
+        const older = kept === -1 ? transitions.length : kept;
+        if (older > 0) {
+          transitions.splice(0, older, { ...transitions[older - 1], time: cutoff });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Characteristic classes for the usage of a light, created once since HAP identifies them by their class
+ */
+export function createUsageCharacteristics(hap: HAP): UsageCharacteristics {
+  const define = (name: string, uuid: string, props: Omit<CharacteristicProps, 'perms'>) => class extends hap.Characteristic {
+    static readonly UUID = uuid;
+
+    constructor() {
+      super(name, uuid, { ...props, perms: [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY] });
+      this.value = this.getDefaultValue();
+    }
+  };
+  return {
+    currentConsumption: define('Consumption', EVE_CURRENT_CONSUMPTION_UUID, {
+      format: hap.Formats.FLOAT, unit: 'W', minValue: 0, maxValue: 10000, minStep: 0.1,
+    }),
+    todayConsumption: define('Energy Today', ENERGY_TODAY_UUID, {
+      format: hap.Formats.FLOAT, unit: 'kWh', minValue: 0, maxValue: 1000, minStep: 0.001,
+    }),
+    onTimeToday: define('On Time Today', ON_TIME_TODAY_UUID, {
+      format: hap.Formats.UINT16, unit: 'min', minValue: 0, maxValue: 1440, minStep: 1,
+    }),
+  };
+}
+
+// Values of the usage characteristics from the history
+function getUsageValues(platform: TuoLifeHomebridgePlatform, kind: UsageKind, id: string) {
+  const history = platform.usageHistory!;
+  const today = history.getToday(kind, id);
+  return {
+    currentConsumption: history.getCurrentWattage(kind, id),
+    todayConsumption: Math.round(today.energy) / 1000,
+    onTimeToday: Math.round(today.onTime / 60),
+  };
+}
+
+/**
+ * Add the usage characteristics to the light while the usage history is recorded, and remove them otherwise
+ */
+export function configureUsageCharacteristics(platform: TuoLifeHomebridgePlatform, service: Service, kind: UsageKind, getId: () => string) {
+  const characteristics = platform.getUsageCharacteristics();
+  const stale = characteristics ? [EVE_TOTAL_CONSUMPTION_UUID] : [...USAGE_CHARACTERISTIC_UUIDS, EVE_TOTAL_CONSUMPTION_UUID];
+  for (const characteristic of service.characteristics.filter(existing => stale.includes(existing.UUID))) {
+    service.removeCharacteristic(characteristic);
+  }
+  if (!characteristics) {
+    return;
+  }
+  for (const key of Object.keys(characteristics) as Array<keyof UsageCharacteristics>) {
+    configureOptionalCharacteristic(service, characteristics[key], true);
+    service.getCharacteristic(characteristics[key]).onGet(() => getUsageValues(platform, kind, getId())[key]);
+  }
+}
+
+// Show the latest usage of the light, e.g. after it changed
+export function updateUsageCharacteristics(platform: TuoLifeHomebridgePlatform, service: Service, kind: UsageKind, id: string) {
+  const characteristics = platform.getUsageCharacteristics();
+  if (!characteristics) {
+    return;
+  }
+  const values = getUsageValues(platform, kind, id);
+  updateIfChanged(service, characteristics.currentConsumption, values.currentConsumption);
+  updateIfChanged(service, characteristics.todayConsumption, values.todayConsumption);
+  updateIfChanged(service, characteristics.onTimeToday, values.onTimeToday);
+}
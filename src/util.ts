@@ -0,0 +1,77 @@
+import type { Characteristic, CharacteristicValue, Service, WithUUID } from 'homebridge';
+
+import type { HueSaturation } from './color.js';
+
+// Combines a written half of the color with the other half, see createColorWriter
+export type ColorWriter = (changes: Partial<HueSaturation>) => HueSaturation;
+
+/**
+ * Update a characteristic without triggering its set handler, but only when the value differs,
+ * so HomeKit is not notified about values it already has. Returns true when the value was updated.
+ */
+export function updateIfChanged(
+  service: Service,
+  characteristic: WithUUID<new () => Characteristic>,
+  value: CharacteristicValue,
+): boolean {
+  if (service.getCharacteristic(characteristic).value === value) {
+    return false;
+  }
+  service.updateCharacteristic(characteristic, value);
+  return true;
+}
+
+/**
+ * Add or remove an optional characteristic, e.g. after it was turned on or off in config
+ */
+export function configureOptionalCharacteristic(
+  service: Service,
+  characteristic: WithUUID<new () => Characteristic>,
+  enabled: boolean,
+) {
+  const present = service.characteristics.some(existing => existing.UUID === characteristic.UUID);
+  if (enabled && !present) {
+    service.addOptionalCharacteristic(characteristic);
+    service.getCharacteristic(characteristic);
+  } else if (!enabled && present) {
+    service.removeCharacteristic(service.getCharacteristic(characteristic));
+  }
+}
+
+/**
+ * Complete the hue or saturation written to a Lightbulb service with the other half of the color.
+ * HomeKit may write both at once, HAP then runs both set handlers before it stores either value,
+ * so a half written moments ago is kept until the next turn of the event loop instead of reading the old value.
+ */
+export function createColorWriter(service: Service, characteristics: typeof Characteristic): ColorWriter {
+  let pending: Partial<HueSaturation> = {};
+  return changes => {
+    if (pending.hue === undefined && pending.saturation === undefined) {
+      setImmediate(() => {
+        pending = {};
+      });
+    }
+    pending = { ...pending, ...changes };
+    return {
+      hue: pending.hue ?? Number(service.getCharacteristic(characteristics.Hue).value),
+      saturation: pending.saturation ?? Number(service.getCharacteristic(characteristics.Saturation).value),
+    };
+  };
+}
+
+/**
+ * Remove the color characteristics of a Lightbulb service, including the ones added by adaptive lighting,
+ * after color was turned off in config
+ */
+export function removeColorCharacteristics(service: Service, characteristics: typeof Characteristic) {
+  for (const characteristic of [
+    characteristics.Hue,
+    characteristics.Saturation,
+    characteristics.ColorTemperature,
+    characteristics.SupportedCharacteristicValueTransitionConfiguration,
+    characteristics.CharacteristicValueTransitionControl,
+    characteristics.CharacteristicValueActiveTransitionCount,
+  ]) {
+    configureOptionalCharacteristic(service, characteristic, false);
+  }
+}
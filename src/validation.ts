@@ -0,0 +1,192 @@
+import { TuoLifeBulbDevice, TuoLifeRoomDevice, TuolifeRoom, deviceModes } from './types.js';
+
+// Reports a field that had to be fixed, or a record that had to be dropped
+export type PayloadWarning = (message: string) => void;
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Ids arrive as strings or numbers, anything else can't identify a record
+function toId(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toText(value: unknown, fallback: string, field: string, warn: PayloadWarning): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (value !== undefined && value !== null) {
+    warn(`${field} ${JSON.stringify(value)} is not text, using "${fallback}"`);
+  }
+  return fallback;
+}
+
+// Brightness and color channels are percentages, numeric strings are accepted
+function toPercent(value: unknown, fallback: number, field: string, warn: PayloadWarning): number {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    if (value !== undefined && value !== null && value !== '') {
+      warn(`${field} ${JSON.stringify(value)} is not a number, using ${fallback}`);
+    }
+    return fallback;
+  }
+  if (number < 0 || number > 100) {
+    warn(`${field} ${number} is out of range, clamping it to 0-100`);
+  }
+  return Math.min(100, Math.max(0, number));
+}
+
+function toBoolean(value: unknown, fallback: boolean, field: string, warn: PayloadWarning): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 1 || value === '1') {
+    return true;
+  }
+  if (value === 'false' || value === 0 || value === '0') {
+    return false;
+  }
+  if (value !== undefined && value !== null) {
+    warn(`${field} ${JSON.stringify(value)} is not true or false, using ${fallback}`);
+  }
+  return fallback;
+}
+
+/**
+ * Check a bulb from the server or the accessory cache and bring every field to its type.
+ * Returns undefined when the bulb has no id or no group, it can't be told apart from other bulbs or controlled then.
+ */
+export function normalizeDevice(data: unknown, warn: PayloadWarning, roomId?: string): TuoLifeBulbDevice | undefined {
+  if (!isRecord(data)) {
+    warn(`Ignoring bulb ${JSON.stringify(data)}, expected an object`);
+    return undefined;
+  }
+  const bulbId = toId(data.bulbId);
+  if (!bulbId) {
+    warn(`Ignoring bulb without bulbId: ${JSON.stringify(data)}`);
+    return undefined;
+  }
+  const groupId = toId(data.groupId) ?? roomId;
+  if (!groupId) {
+    warn(`Ignoring bulb ${bulbId} without groupId`);
+    return undefined;
+  }
+  if (roomId && groupId !== roomId) {
+    warn(`Bulb ${bulbId}: groupId ${groupId} differs from its room ${roomId}`);
+  }
+
+  const field = (name: string) => `Bulb ${bulbId}: ${name}`;
+  return {
+    bulbId,
+    groupId,
+    nickname: toText(data.nickname, '', field('nickname'), warn) || `Bulb ${bulbId}`,
+    generation: toText(data.generation, '', field('generation'), warn) || '1',
+    userId: toText(data.userId, '', field('userId'), warn),
+    deviceId: toText(data.deviceId, '', field('deviceId'), warn),
+    firmwareVersion: toText(data.firmwareVersion, '', field('firmwareVersion'), warn),
+    // a bulb that doesn't say is assumed to be there, the server reports offline bulbs explicitly
+    isAvailable: toBoolean(data.isAvailable, true, field('isAvailable'), warn),
+    modeId: toText(data.modeId, '', field('modeId'), warn) || deviceModes.off,
+    brightness: toPercent(data.brightness, 0, field('brightness'), warn),
+    red: toPercent(data.red, 0, field('red'), warn),
+    green: toPercent(data.green, 0, field('green'), warn),
+    blue: toPercent(data.blue, 0, field('blue'), warn),
+    violet: toPercent(data.violet, 0, field('violet'), warn),
+    whiteColor: toPercent(data.whiteColor, 0, field('whiteColor'), warn),
+  };
+}
+
+/**
+ * Check the roomsByUser response and bring every room and bulb to its type.
+ * Rooms and bulbs without an id are dropped, just like a second one with an id already seen.
+ */
+export function normalizeRooms(data: unknown[], warn: PayloadWarning): TuolifeRoom[] {
+  const rooms: TuolifeRoom[] = [];
+  const bulbIds: Set<string> = new Set();
+
+  for (const raw of data) {
+    if (!isRecord(raw)) {
+      warn(`Ignoring room ${JSON.stringify(raw)}, expected an object`);
+      continue;
+    }
+    const id = toId(raw.id);
+    if (!id) {
+      warn(`Ignoring room without id: ${JSON.stringify({ ...raw, devices: undefined })}`);
+      continue;
+    }
+    if (rooms.some(room => room.id === id)) {
+      warn(`Ignoring second room with id ${id}`);
+      continue;
+    }
+
+    const field = (name: string) => `Room ${id}: ${name}`;
+    if (raw.devices !== undefined && raw.devices !== null && !Array.isArray(raw.devices)) {
+      warn(`${field('devices')} is not a list, the room has no bulbs`);
+    }
+    const devices: TuoLifeBulbDevice[] = [];
+    for (const rawDevice of Array.isArray(raw.devices) ? raw.devices : []) {
+      const device = normalizeDevice(rawDevice, warn, id);
+      if (!device) {
+        continue;
+      }
+      if (bulbIds.has(device.bulbId)) {
+        warn(`Ignoring second bulb with bulbId ${device.bulbId} in room ${id}`);
+        continue;
+      }
+      bulbIds.add(device.bulbId);
+      devices.push(device);
+    }
+
+    rooms.push({
+      id,
+      groupName: toText(raw.groupName, '', field('groupName'), warn) || id,
+      userId: toText(raw.userId, '', field('userId'), warn),
+      modeId: toText(raw.modeId, '', field('modeId'), warn),
+      // rooms without a brightness of their own take the average of their bulbs
+      brightness: raw.brightness === undefined || raw.brightness === null || raw.brightness === ''
+        ? undefined
+        : toPercent(raw.brightness, 0, field('brightness'), warn),
+      roomDefaults: Array.isArray(raw.roomDefaults) ? raw.roomDefaults.filter(isRecord) : [],
+      devices,
+    });
+  }
+  return rooms;
+}
+
+/**
+ * Check a room state from the accessory cache and bring every field to its type.
+ * Returns undefined when the room has no groupId.
+ */
+export function normalizeRoomDevice(data: unknown, warn: PayloadWarning): TuoLifeRoomDevice | undefined {
+  if (!isRecord(data)) {
+    warn(`Ignoring room ${JSON.stringify(data)}, expected an object`);
+    return undefined;
+  }
+  const groupId = toId(data.groupId);
+  if (!groupId) {
+    warn(`Ignoring room without groupId: ${JSON.stringify(data)}`);
+    return undefined;
+  }
+
+  const field = (name: string) => `Room ${groupId}: ${name}`;
+  return {
+    groupId,
+    groupName: toText(data.groupName, '', field('groupName'), warn) || groupId,
+    userId: toText(data.userId, '', field('userId'), warn),
+    modeId: toText(data.modeId, '', field('modeId'), warn) || deviceModes.off,
+    brightness: toPercent(data.brightness, 0, field('brightness'), warn),
+    red: toPercent(data.red, 0, field('red'), warn),
+    green: toPercent(data.green, 0, field('green'), warn),
+    blue: toPercent(data.blue, 0, field('blue'), warn),
+    violet: toPercent(data.violet, 0, field('violet'), warn),
+    whiteColor: toPercent(data.whiteColor, 0, field('whiteColor'), warn),
+    bulbIds: Array.isArray(data.bulbIds) ? data.bulbIds.map(toId).filter((bulbId): bulbId is string => bulbId !== undefined) : [],
+  };
+}
@@ -0,0 +1,258 @@
+import type { API, Characteristic, CharacteristicValue, Logging, PlatformAccessory, PlatformConfig, Service, WithUUID } from 'homebridge';
+
+import * as hap from 'hap-nodejs';
+import { EventEmitter } from 'node:events';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { TestContext } from 'node:test';
+import { format } from 'node:util';
+
+import { TuoLifeHomebridgePlatform } from '../src/platform.js';
+import { PLATFORM_NAME, PLUGIN_NAME } from '../src/settings.js';
+
+export type LogLevel = 'info' | 'success' | 'warn' | 'error' | 'debug';
+
+export type LogMessage = {
+  level: LogLevel;
+  message: string;
+};
+
+// An accessory as Homebridge keeps it in its cache file
+type CachedAccessory = hap.SerializedAccessory & {
+  context: Record<string, unknown>;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Mock setInterval for the test, Node 18 takes the list of timers instead of the options of later versions
+export function mockIntervals(t: TestContext) {
+  try {
+    t.mock.timers.enable({ apis: ['setInterval'] });
+  } catch {
+    (t.mock.timers as unknown as { enable(timers: string[]): void }).enable(['setInterval']);
+  }
+}
+
+/**
+ * Fake PlatformAccessory
+ * Wraps a HAP accessory like the one of Homebridge and serializes to the same cache format.
+ */
+export class FakePlatformAccessory extends EventEmitter {
+  public displayName: string;
+  public readonly UUID: string;
+  public readonly services: Service[];
+  public context: Record<string, unknown> = {};
+
+  constructor(displayName: string, uuid: string, private readonly hapAccessory = new hap.Accessory(displayName, uuid)) {
+    super();
+    this.displayName = hapAccessory.displayName;
+    this.UUID = hapAccessory.UUID;
+    this.services = hapAccessory.services;
+  }
+
+  // same arguments as Accessory.addService, either a service or a service constructor with its arguments
+  addService(...args: unknown[]): Service {
+    return (this.hapAccessory.addService as (...args: unknown[]) => Service).apply(this.hapAccessory, args);
+  }
+
+  removeService(service: Service) {
+    this.hapAccessory.removeService(service);
+  }
+
+  getService<T extends WithUUID<typeof Service>>(name: string | T): Service | undefined {
+    return this.hapAccessory.getService(name);
+  }
+
+  getServiceById<T extends WithUUID<typeof Service>>(uuid: string | T, subType: string): Service | undefined {
+    return this.hapAccessory.getServiceById(uuid, subType);
+  }
+
+  configureController(controller: hap.Controller) {
+    this.hapAccessory.configureController(controller);
+  }
+
+  removeController(controller: hap.Controller) {
+    this.hapAccessory.removeController(controller);
+  }
+
+  // Written to disk and read back, so nothing but JSON survives a restart
+  toCache(): CachedAccessory {
+    return JSON.parse(JSON.stringify({ ...hap.Accessory.serialize(this.hapAccessory), context: this.context }));
+  }
+
+  static fromCache(cached: CachedAccessory): FakePlatformAccessory {
+    const hapAccessory = hap.Accessory.deserialize(cached);
+    const accessory = new FakePlatformAccessory(hapAccessory.displayName, hapAccessory.UUID, hapAccessory);
+    accessory.context = cached.context;
+    return accessory;
+  }
+}
+
+/**
+ * Fake Homebridge
+ * Runs the platform against a fake Homebridge API: cached accessories are restored on launch,
+ * registered accessories are kept like the accessory cache, and a restart goes through the cache format.
+ * Every launch gets a fresh API, so event handlers of an earlier launch are gone.
+ */
+export class FakeHomebridge {
+  // accessories registered by the platform by UUID, like the accessory cache of Homebridge
+  public readonly accessories: Map<string, FakePlatformAccessory> = new Map();
+  public readonly messages: LogMessage[] = [];
+  public platform?: TuoLifeHomebridgePlatform;
+  // accessories updated with updatePlatformAccessories, in order
+  public readonly updated: string[] = [];
+  private api?: EventEmitter;
+  private config?: PlatformConfig;
+  private running = false;
+
+  private constructor(public readonly storagePath: string) {}
+
+  // A harness with an empty storage path of its own
+  static async create(): Promise<FakeHomebridge> {
+    return new FakeHomebridge(await fs.mkdtemp(path.join(os.tmpdir(), 'tuolife-test-')));
+  }
+
+  get hap(): typeof hap {
+    return hap;
+  }
+
+  /**
+   * Start the platform with the given config: restore the cached accessories from the last launch
+   * and signal that Homebridge finished launching.
+   */
+  launch(config: Omit<PlatformConfig, 'platform'>): TuoLifeHomebridgePlatform {
+    if (this.running) {
+      this.shutdown();
+    }
+    this.config = { platform: PLATFORM_NAME, ...config };
+    const cached = [...this.accessories.values()].map(accessory => accessory.toCache());
+    this.accessories.clear();
+
+    this.api = this.createApi();
+    const platform = new TuoLifeHomebridgePlatform(this.createLog(), this.config, this.api as unknown as API);
+    for (const entry of cached) {
+      const accessory = FakePlatformAccessory.fromCache(entry);
+      this.accessories.set(accessory.UUID, accessory);
+      platform.configureAccessory(accessory as unknown as PlatformAccessory);
+    }
+    this.platform = platform;
+    this.running = true;
+    this.api.emit('didFinishLaunching');
+    return platform;
+  }
+
+  // Shut down and launch again from the accessory cache, with the same config unless another one is given
+  restart(config?: Omit<PlatformConfig, 'platform'>): TuoLifeHomebridgePlatform {
+    const next = config ?? this.config;
+    if (!next) {
+      throw new Error('The platform was never launched');
+    }
+    this.shutdown();
+    return this.launch(next);
+  }
+
+  shutdown() {
+    if (this.running) {
+      this.running = false;
+      this.api?.emit('shutdown');
+    }
+  }
+
+  // Shut down and remove the storage path
+  async cleanup() {
+    this.shutdown();
+    await fs.rm(this.storagePath, { recursive: true, force: true });
+  }
+
+  // The registered accessory with the given name
+  accessory(displayName: string): FakePlatformAccessory | undefined {
+    return [...this.accessories.values()].find(accessory => accessory.displayName === displayName);
+  }
+
+  // A characteristic of a service of the registered accessory with the given name, throws if there is none
+  characteristic(
+    displayName: string,
+    service: WithUUID<typeof Service>,
+    characteristic: WithUUID<new () => Characteristic>,
+    subtype?: string,
+  ): Characteristic {
+    const accessory = this.accessory(displayName);
+    const found = subtype
+      ? accessory?.getServiceById(service, subtype)
+      : accessory?.services.find(candidate => candidate.UUID === service.UUID && !candidate.subtype);
+    if (!found) {
+      throw new Error(`No ${service.name} service${subtype ? ` ${subtype}` : ''} on ${displayName}`);
+    }
+    return found.getCharacteristic(characteristic);
+  }
+
+  // Write a characteristic like HomeKit does, rejects with the HAP status the handler failed with
+  // a context marks writes of a controller, e.g. `{ controller }` for Adaptive Lighting
+  set(characteristic: Characteristic, value: CharacteristicValue, context?: hap.CharacteristicContext): Promise<unknown> {
+    return characteristic.handleSetRequest(value, undefined, context);
+  }
+
+  // Wait until the condition is true, the platform works in the background after launch
+  async waitFor(condition: () => boolean, description = 'condition', timeout = 2000) {
+    const end = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > end) {
+        throw new Error(`Timed out waiting for ${description}`);
+      }
+      await sleep(10);
+    }
+  }
+
+  // Logged messages of a level, formatted like Homebridge does
+  logged(level: LogLevel): string[] {
+    return this.messages.filter(entry => entry.level === level).map(entry => entry.message);
+  }
+
+  private createApi(): EventEmitter {
+    const api = new EventEmitter();
+    const check = (plugin: string, platform: string) => {
+      if (plugin !== PLUGIN_NAME || platform !== PLATFORM_NAME) {
+        throw new Error(`Unexpected plugin ${plugin} or platform ${platform}`);
+      }
+    };
+    return Object.assign(api, {
+      hap,
+      platformAccessory: FakePlatformAccessory,
+      user: { storagePath: () => this.storagePath },
+      registerPlatformAccessories: (plugin: string, platform: string, accessories: FakePlatformAccessory[]) => {
+        check(plugin, platform);
+        for (const accessory of accessories) {
+          if (this.accessories.has(accessory.UUID)) {
+            throw new Error(`Accessory ${accessory.displayName} is already registered`);
+          }
+          this.accessories.set(accessory.UUID, accessory);
+        }
+      },
+      unregisterPlatformAccessories: (plugin: string, platform: string, accessories: FakePlatformAccessory[]) => {
+        check(plugin, platform);
+        for (const accessory of accessories) {
+          this.accessories.delete(accessory.UUID);
+        }
+      },
+      updatePlatformAccessories: (accessories: FakePlatformAccessory[]) => {
+        this.updated.push(...accessories.map(accessory => accessory.displayName));
+      },
+    });
+  }
+
+  private createLog(): Logging {
+    const record = (level: LogLevel) => (message: unknown, ...parameters: unknown[]) => {
+      this.messages.push({ level, message: format(message, ...parameters) });
+    };
+    return Object.assign(record('info'), {
+      prefix: PLATFORM_NAME,
+      info: record('info'),
+      success: record('success'),
+      warn: record('warn'),
+      error: record('error'),
+      debug: record('debug'),
+      log: (level: LogLevel, message: unknown, ...parameters: unknown[]) => record(level)(message, ...parameters),
+    }) as unknown as Logging;
+  }
+}
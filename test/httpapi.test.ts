@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FakeHomebridge } from './harness.js';
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { deviceModes } from '../src/types.js';
+
+const TOKEN = 'test-token';
+
+// A port nothing listens on, the HTTP API needs a fixed one
+async function freePort(): Promise<number> {
+  const server = createServer().listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as { port: number };
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+describe('TuoLifeHttpApi', () => {
+  let server: TuoLifeMockServer;
+  let homebridge: FakeHomebridge;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102'])]);
+    await server.start();
+    homebridge = await FakeHomebridge.create();
+  });
+
+  afterEach(async () => {
+    await homebridge.cleanup();
+    await server.stop();
+  });
+
+  const launch = async (config: Record<string, unknown> = {}, accessories = 3) => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    homebridge.launch(server.platformConfig({ httpApi: { port, host: '127.0.0.1', token: TOKEN }, ...config }));
+    await homebridge.waitFor(() => homebridge.accessories.size === accessories
+      && homebridge.logged('info').some(message => message.startsWith('TuoLife HTTP API listening')), 'discovery');
+  };
+
+  const request = (method: string, path: string, body?: unknown) => fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${TOKEN}` },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  it('sends on, brightness and color of a request in one update', async () => {
+    await launch();
+    const response = await request('POST', '/bulbs/101', { on: true, brightness: 40, hue: 120, saturation: 100 });
+
+    assert.equal(response.status, 200);
+    const requests = server.requestsTo('mode/roomModeStart');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].body?.modeId, deviceModes.on);
+    assert.equal(requests[0].body?.brightness, 40);
+    assert.equal((await response.json()).hue, 120);
+  });
+
+  it('answers a body over the size limit with 413', async () => {
+    await launch();
+    const response = await request('POST', '/bulbs/101', { nickname: 'x'.repeat(100000) });
+
+    assert.equal(response.status, 413);
+    assert.equal(response.headers.get('connection'), 'close');
+    assert.deepEqual(await response.json(), { error: 'Request body is too large' });
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 0);
+  });
+
+  it('answers a malformed path with 400', async () => {
+    await launch();
+    const response = await request('GET', '/bulbs/%E0');
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Malformed request path' });
+  });
+
+  it('picks a bulb whose id more than one account uses by the account label', async () => {
+    await launch({
+      apiKey: undefined,
+      accounts: [{ label: 'Home', apiKey: server.token }, { label: 'Office', apiKey: server.token }],
+    }, 6);
+
+    assert.equal((await request('GET', '/bulbs/101')).status, 409);
+    const response = await request('GET', '/bulbs/101?account=Office');
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).account, 'Office');
+    assert.equal((await request('GET', '/bulbs/101?account=Garage')).status, 404);
+  });
+});
@@ -0,0 +1,270 @@
+import { once } from 'node:events';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { TuoLifeBulbDevice, TuolifeRoom, deviceModes } from '../src/types.js';
+
+// A request as the mock server received it
+export type MockRequest = {
+  method: string;
+  // without the leading slash, e.g. group/roomsByUser
+  path: string;
+  authorization?: string;
+  body?: Record<string, unknown>;
+};
+
+// Scripted answer to the next requests of an endpoint
+export type MockFailure = {
+  // http status of the answer, 500 by default
+  status?: number;
+  // close the connection without an answer, the client sees a network error
+  drop?: boolean;
+  // seconds sent as Retry-After header
+  retryAfter?: number;
+  body?: string;
+  // number of requests that fail, 1 by default
+  times?: number;
+};
+
+const ENDPOINTS = ['user/login', 'group/roomsByUser', 'mode/roomModeStart'] as const;
+export type MockEndpoint = typeof ENDPOINTS[number];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A bulb as the server sends it, in a room of the given group
+export function createBulb(bulbId: string, groupId: string, state: Partial<TuoLifeBulbDevice> = {}): TuoLifeBulbDevice {
+  return {
+    bulbId,
+    groupId,
+    nickname: `Bulb ${bulbId}`,
+    generation: 'GU10',
+    userId: 'user-1',
+    deviceId: `device-${bulbId}`,
+    firmwareVersion: '1.0.0',
+    isAvailable: true,
+    modeId: deviceModes.off,
+    brightness: 50,
+    red: 0,
+    green: 0,
+    blue: 0,
+    violet: 0,
+    whiteColor: 100,
+    ...state,
+  };
+}
+
+// A room as the server sends it, with a bulb for every given bulbId
+export function createRoom(id: string, bulbIds: string[], state: Partial<TuolifeRoom> = {}): TuolifeRoom {
+  return {
+    id,
+    groupName: `Room ${id}`,
+    userId: 'user-1',
+    modeId: deviceModes.off,
+    roomDefaults: [],
+    devices: bulbIds.map(bulbId => createBulb(bulbId, id)),
+    ...state,
+  };
+}
+
+/**
+ * TuoLife Mock Server
+ * In-process stand-in for the TuoLife cloud with the login, roomsByUser and roomModeStart endpoints.
+ * It records every request, applies roomModeStart to its rooms like the real server does
+ * and answers with scripted failures and delays.
+ */
+export class TuoLifeMockServer {
+  public readonly requests: MockRequest[] = [];
+  // rooms returned by roomsByUser, can be changed by tests like a change made in the TuoLife app
+  public rooms: TuolifeRoom[];
+  // token returned by the login and expected in the Authorization header, also works as API key
+  public token = 'mock-token';
+  public readonly username = 'user@example.com';
+  public readonly password = 'secret';
+  private readonly failures: Map<MockEndpoint, MockFailure[]> = new Map();
+  private readonly delays: Map<MockEndpoint, number> = new Map();
+  private readonly server: http.Server;
+  private url?: string;
+
+  constructor(rooms: TuolifeRoom[] = []) {
+    this.rooms = rooms;
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        response.writeHead(500).end(String(error));
+      });
+    });
+  }
+
+  // Listen on a free port of the loopback interface, returns the base url for apiBaseUrl in config
+  async start(): Promise<string> {
+    this.server.listen(0, '127.0.0.1');
+    await once(this.server, 'listening');
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop() {
+    this.server.closeAllConnections();
+    this.server.close();
+    await once(this.server, 'close');
+  }
+
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('The mock server is not started');
+    }
+    return this.url;
+  }
+
+  // Answer the next requests of an endpoint with a failure, scripted failures are used in order
+  fail(endpoint: MockEndpoint, failure: MockFailure = {}) {
+    const failures = this.failures.get(endpoint) ?? [];
+    failures.push({ ...failure, times: failure.times ?? 1 });
+    this.failures.set(endpoint, failures);
+  }
+
+  // Wait before answering every request of an endpoint, 0 to answer right away again
+  delay(endpoint: MockEndpoint, ms: number) {
+    this.delays.set(endpoint, ms);
+  }
+
+  /**
+   * Platform config that talks to this server with its token as API key.
+   * Commands are sent right away and failed requests are not retried, so tests don't wait.
+   */
+  platformConfig(config: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      name: 'TuoLife',
+      apiKey: this.token,
+      apiBaseUrl: this.baseUrl,
+      requestRetries: 0,
+      commandDebounce: 0,
+      minCommandInterval: 0,
+      offlineQueueMaxAge: 0,
+      ...config,
+    };
+  }
+
+  requestsTo(endpoint: MockEndpoint): MockRequest[] {
+    return this.requests.filter(request => request.path === endpoint);
+  }
+
+  getRoom(groupId: string): TuolifeRoom | undefined {
+    return this.rooms.find(room => room.id === groupId);
+  }
+
+  getBulb(bulbId: string): TuoLifeBulbDevice | undefined {
+    return this.rooms.flatMap(room => room.devices).find(device => device.bulbId === bulbId);
+  }
+
+  // Change a bulb as if it was changed in the TuoLife app
+  updateBulb(bulbId: string, changes: Partial<TuoLifeBulbDevice>) {
+    const bulb = this.getBulb(bulbId);
+    if (!bulb) {
+      throw new Error(`No bulb ${bulbId} on the mock server`);
+    }
+    Object.assign(bulb, changes);
+  }
+
+  // Remove a bulb from its room as if it was removed in the TuoLife app
+  removeBulb(bulbId: string) {
+    for (const room of this.rooms) {
+      room.devices = room.devices.filter(device => device.bulbId !== bulbId);
+    }
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const path = (request.url ?? '').replace(/^\/+/, '').split('?')[0];
+    let body: Record<string, unknown> | undefined;
+    const text = await this.readBody(request);
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        response.writeHead(400).end('Invalid JSON');
+        return;
+      }
+    }
+    this.requests.push({ method: request.method ?? '', path, authorization: request.headers.authorization, body });
+
+    const endpoint = ENDPOINTS.find(known => known === path);
+    if (!endpoint) {
+      response.writeHead(404).end('Not found');
+      return;
+    }
+    const delay = this.delays.get(endpoint);
+    if (delay) {
+      await sleep(delay);
+    }
+    if (this.answerFailure(endpoint, response)) {
+      return;
+    }
+
+    if (endpoint === 'user/login') {
+      if (body?.email !== this.username || body?.password !== this.password) {
+        response.writeHead(401).end('Wrong username or password');
+        return;
+      }
+      this.json(response, { token: this.token, expiresIn: 3600 });
+      return;
+    }
+    if (request.headers.authorization !== this.token) {
+      response.writeHead(401).end('Unauthorized');
+      return;
+    }
+    if (endpoint === 'group/roomsByUser') {
+      this.json(response, this.rooms);
+      return;
+    }
+    this.json(response, this.roomModeStart(body ?? {}));
+  }
+
+  // Apply the state of a group to its room and every bulb of it
+  private roomModeStart(body: Record<string, unknown>): object {
+    const room = this.getRoom(String(body.groupId));
+    if (!room) {
+      return { success: false };
+    }
+    const { modeId, brightness, red, green, blue, violet, whiteColor } = body as Partial<TuoLifeBulbDevice>;
+    const state = Object.fromEntries(Object.entries({ modeId, brightness, red, green, blue, violet, whiteColor })
+      .filter(([, value]) => value !== undefined));
+    room.modeId = modeId ?? room.modeId;
+    if (room.brightness !== undefined && brightness !== undefined) {
+      room.brightness = brightness;
+    }
+    for (const device of room.devices) {
+      Object.assign(device, state);
+    }
+    return { success: true };
+  }
+
+  private answerFailure(endpoint: MockEndpoint, response: ServerResponse): boolean {
+    const failures = this.failures.get(endpoint);
+    const failure = failures?.[0];
+    if (!failures || !failure) {
+      return false;
+    }
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) {
+      failures.shift();
+    }
+    if (failure.drop) {
+      response.socket?.destroy();
+      return true;
+    }
+    const headers: Record<string, string> = failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+    response.writeHead(failure.status ?? 500, headers).end(failure.body ?? 'Scripted failure');
+    return true;
+  }
+
+  private json(response: ServerResponse, data: unknown) {
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+  }
+
+  private async readBody(request: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
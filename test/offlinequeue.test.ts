@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { TuoLifeCommandQueue } from '../src/commandqueue.js';
+import { TuoLifeOfflineQueue } from '../src/offlinequeue.js';
+import { deviceModes } from '../src/types.js';
+
+describe('TuoLifeOfflineQueue', () => {
+  let directory: string;
+  let commandQueue: TuoLifeCommandQueue;
+  let offlineQueue: TuoLifeOfflineQueue;
+  // milliseconds the server takes to answer a request
+  let requestTime = 0;
+  const sent: Array<{ groupId: string; brightness: number; time: number }> = [];
+  const confirmed: string[] = [];
+  const log = Object.assign(() => {}, {
+    prefix: 'test', info: () => {}, success: () => {}, debug: () => {}, log: () => {}, warn: () => {}, error: () => {},
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tuolife-offline-'));
+    sent.length = 0;
+    confirmed.length = 0;
+    requestTime = 0;
+    commandQueue = new TuoLifeCommandQueue({
+      send: async update => {
+        sent.push({ groupId: update.groupId, brightness: update.brightness, time: Date.now() });
+        await new Promise(resolve => setTimeout(resolve, requestTime));
+      },
+      confirm: () => {},
+      rollback: () => {},
+      debounce: 0,
+      minInterval: 100,
+      log,
+    });
+    offlineQueue = new TuoLifeOfflineQueue(path.join(directory, 'pending.json'), {
+      send: (update, current) => commandQueue.replay(update, current),
+      confirm: update => confirmed.push(update.groupId),
+      abandon: () => {},
+      isRetryable: () => true,
+      maxAge: 60000,
+      retryDelay: 60000,
+      maxRetryDelay: 60000,
+      log,
+    });
+  });
+
+  afterEach(async () => {
+    offlineQueue.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays the pending updates of every group the minimum interval apart', async () => {
+    for (const groupId of ['10', '20', '30']) {
+      offlineQueue.add({ groupId, modeId: deviceModes.on, brightness: 50, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 });
+    }
+
+    const start = Date.now();
+    await offlineQueue.replay();
+
+    assert.deepEqual(sent.map(request => request.groupId), ['10', '20', '30']);
+    assert.deepEqual(confirmed, ['10', '20', '30']);
+    // the slots are the interval apart, a late send doesn't move the next one, and timers may fire a millisecond early
+    sent.forEach((request, index) => assert.ok(request.time - start >= index * 100 - 1, `replay ${index} was sent too early`));
+  });
+
+  it('drops a replayed state once a newer state of the group is sent', async () => {
+    requestTime = 100;
+    for (const groupId of ['20', '10']) {
+      offlineQueue.add({ groupId, modeId: deviceModes.on, brightness: 20, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 });
+    }
+
+    const replayed = offlineQueue.replay();
+    // a newer state of group 10 replaces the kept one while group 20 is replayed
+    offlineQueue.remove('10');
+    const queued = commandQueue.enqueue({
+      groupId: '10', modeId: deviceModes.on, brightness: 80, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100,
+    });
+    await Promise.all([replayed, queued]);
+
+    assert.deepEqual(sent.map(request => `${request.groupId}:${request.brightness}`), ['20:20', '10:80']);
+    assert.deepEqual(confirmed, ['20']);
+  });
+});
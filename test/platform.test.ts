@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FakeHomebridge, mockIntervals } from './harness.js';
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { TuoLifeAccount } from '../src/account.js';
+import { DEFAULT_SYNC_INTERVAL, TOKEN_FILE_NAME } from '../src/settings.js';
+
+describe('TuoLifeHomebridgePlatform', () => {
+  let server: TuoLifeMockServer;
+  let homebridge: FakeHomebridge;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102']), createRoom('20', ['201'])]);
+    await server.start();
+    homebridge = await FakeHomebridge.create();
+  });
+
+  afterEach(async () => {
+    await homebridge.cleanup();
+    await server.stop();
+  });
+
+  // Launch and wait until the first discovery registered every room and bulb
+  const launch = async (config: Record<string, unknown> = {}) => {
+    const platform = homebridge.launch(server.platformConfig(config));
+    await homebridge.waitFor(() => homebridge.accessories.size === 5, 'discovery');
+    return platform;
+  };
+
+  const sync = async (t: { mock: { timers: { tick(ms: number): void } } }) => {
+    const requests = server.requestsTo('group/roomsByUser').length;
+    t.mock.timers.tick(DEFAULT_SYNC_INTERVAL * 1000);
+    await homebridge.waitFor(() => server.requestsTo('group/roomsByUser').length > requests, 'sync');
+    // the response is applied right after it arrived
+    await new Promise(resolve => setTimeout(resolve, 50));
+  };
+
+  it('registers every room and bulb on discovery', async () => {
+    await launch();
+
+    assert.deepEqual([...homebridge.accessories.values()].map(accessory => accessory.displayName).sort(),
+      ['Bulb 101', 'Bulb 102', 'Bulb 201', 'Room 10', 'Room 20']);
+    assert.equal(server.requestsTo('group/roomsByUser')[0].authorization, server.token);
+    assert.deepEqual(homebridge.logged('error'), []);
+  });
+
+  it('logs in with username and password and keeps the token', async () => {
+    await launch({ apiKey: undefined, username: server.username, password: server.password });
+
+    assert.equal(server.requestsTo('user/login').length, 1);
+    const stored = JSON.parse(await fs.readFile(path.join(homebridge.storagePath, TOKEN_FILE_NAME), 'utf8'));
+    assert.equal(stored.token, server.token);
+  });
+
+  it('restores cached accessories after a restart without registering them again', async () => {
+    await launch();
+    const uuids = [...homebridge.accessories.keys()].sort();
+
+    const platform = homebridge.restart();
+    await homebridge.waitFor(() => platform.getBulbHandlers().length === 3 && platform.getRoomHandlers().length === 2, 'handlers');
+
+    assert.deepEqual([...homebridge.accessories.keys()].sort(), uuids);
+    assert.deepEqual(homebridge.logged('error'), []);
+  });
+
+  it('keeps the cached accessories working when discovery fails', async () => {
+    await launch();
+    await homebridge.set(homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.On), true);
+
+    server.fail('group/roomsByUser', { status: 503 });
+    const platform = homebridge.restart();
+    await homebridge.waitFor(() => homebridge.logged('error').some(message => message.startsWith('Device discovery failed')), 'failure');
+
+    assert.equal(homebridge.accessories.size, 5);
+    assert.equal(platform.getBulbHandlers().length, 3);
+    assert.equal(homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.On).value, true);
+  });
+
+  it('logs an account that fails to start', async t => {
+    t.mock.method(TuoLifeAccount.prototype, 'start', () => Promise.reject(new Error('storage is read-only')));
+    homebridge.launch(server.platformConfig());
+
+    await homebridge.waitFor(() => homebridge.logged('error').some(message => message.startsWith('Could not start the TuoLife account')), 'failure');
+  });
+
+  it('answers a scene switch once the rooms of the scene are queued', async () => {
+    homebridge.launch(server.platformConfig({ scenes: [{ id: 'evening', name: 'Evening' }], minCommandInterval: 500 }));
+    await homebridge.waitFor(() => homebridge.accessories.size === 6, 'discovery');
+    const sceneSwitch = (subtype: string) => homebridge.characteristic('TuoLife Scenes', homebridge.hap.Service.Switch,
+      homebridge.hap.Characteristic.On, subtype);
+    await homebridge.set(sceneSwitch('save-evening'), true);
+
+    const started = Date.now();
+    await homebridge.set(sceneSwitch('scene-evening'), true);
+
+    assert.ok(Date.now() - started < 500, 'the switch waited for the requests');
+    await homebridge.waitFor(() => server.requestsTo('mode/roomModeStart').length === 2, 'recall');
+  });
+
+  it('picks up changes made in the TuoLife app on sync', async t => {
+    mockIntervals(t);
+    await launch();
+
+    server.updateBulb('201', { modeId: 'calm5', brightness: 80, nickname: 'Desk' });
+    await sync(t);
+
+    assert.equal(homebridge.characteristic('Desk', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.On).value, true);
+    assert.equal(homebridge.characteristic('Desk', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Brightness).value, 80);
+  });
+
+  it('removes a bulb once it is missing from enough responses', async t => {
+    mockIntervals(t);
+    await launch({ removeMissingAfter: 2 });
+
+    server.removeBulb('201');
+    await sync(t);
+    assert.ok(homebridge.accessory('Bulb 201'));
+    assert.ok(homebridge.logged('warn').some(message => message.startsWith('Bulb 201 is missing from the TuoLife account (1/2)')));
+
+    await sync(t);
+    assert.equal(homebridge.accessory('Bulb 201'), undefined);
+    assert.equal(homebridge.platform?.getBulbHandlers().length, 2);
+  });
+
+  it('applies settings with an account label to that account only', async () => {
+    homebridge.launch(server.platformConfig({
+      apiKey: undefined,
+      accounts: [{ label: 'Home', apiKey: server.token }, { label: 'Office', apiKey: server.token }],
+      devices: [{ bulbId: '101', account: 'Office', name: 'Desk' }, { bulbId: '201', exclude: true }],
+      rooms: [{ groupId: '20', account: 'Home', exclude: true }],
+    }));
+    await homebridge.waitFor(() => homebridge.accessories.size === 7, 'discovery');
+
+    assert.deepEqual([...homebridge.accessories.values()].map(accessory => accessory.displayName).sort(),
+      ['Bulb 101', 'Bulb 102', 'Bulb 102', 'Desk', 'Room 10', 'Room 10', 'Room 20']);
+    assert.equal(homebridge.accessory('Room 20')?.context.account, 'office');
+    assert.equal(homebridge.accessory('Desk')?.context.account, 'office');
+  });
+
+  it('removes accessories turned off in config on the next launch', async () => {
+    await launch();
+
+    homebridge.restart(server.platformConfig({ exposeRooms: false }));
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'removal');
+
+    assert.equal(homebridge.accessory('Room 10'), undefined);
+    assert.ok(homebridge.accessory('Bulb 101'));
+  });
+});
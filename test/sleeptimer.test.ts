@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FakeHomebridge, mockIntervals } from './harness.js';
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { DEFAULT_SYNC_INTERVAL, SLEEP_TIMERS_FILE_NAME } from '../src/settings.js';
+import { deviceModes } from '../src/types.js';
+
+describe('TuoLifeSleepTimers', () => {
+  let server: TuoLifeMockServer;
+  let homebridge: FakeHomebridge;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102'])]);
+    await server.start();
+    homebridge = await FakeHomebridge.create();
+  });
+
+  afterEach(async () => {
+    await homebridge.cleanup();
+    await server.stop();
+  });
+
+  const launch = async (sleepTimer: Record<string, unknown>) => {
+    homebridge.launch(server.platformConfig({ sleepTimer }));
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'discovery');
+  };
+
+  const on = (name: string) => homebridge.characteristic(name, homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.On);
+  const timerSwitch = (name: string) => homebridge.characteristic(name, homebridge.hap.Service.Switch, homebridge.hap.Characteristic.On, 'sleep-timer');
+  const isOff = () => server.getBulb('101')?.modeId === deviceModes.off;
+  const sent = (count = 1) => homebridge.waitFor(() => server.requestsTo('mode/roomModeStart').length >= count, 'update');
+
+  it('turns the group off a while after it was turned on in HomeKit', async () => {
+    // durations are configured in minutes, 0.003 minutes are 180 ms
+    await launch({ duration: 0.003 });
+
+    await homebridge.set(on('Bulb 101'), true);
+    await sent();
+    assert.equal(server.getBulb('101')?.modeId, deviceModes.on);
+
+    await homebridge.waitFor(() => homebridge.logged('info').some(message => message.startsWith('Sleep timer of group 10 ran out')), 'sleep timer');
+    assert.ok(isOff());
+    assert.equal(on('Room 10').value, false);
+  });
+
+  it('is cancelled when the light is turned off by hand', async () => {
+    await launch({ duration: 0.003 });
+
+    await homebridge.set(on('Bulb 101'), true);
+    await sent();
+    await homebridge.set(on('Room 10'), false);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 2);
+    assert.ok(homebridge.logged('info').some(message => message === 'Cancelled sleep timer of group 10, the light was turned off'));
+  });
+
+  it('turns the light back on with the brightness it had before the fade', async () => {
+    server.updateBulb('101', { brightness: 70 });
+    server.updateBulb('102', { brightness: 70 });
+    await launch({ duration: 0.003 });
+    await homebridge.set(on('Bulb 101'), true);
+    await sent();
+
+    // a fade step of the timer
+    const platform = homebridge.platform!;
+    await platform.sendBulbUpdateToServer({ groupId: '10', ...platform.getGroupStates()['10'], brightness: 1 }, 'sleepTimer');
+    await homebridge.waitFor(() => homebridge.logged('info').some(message => message.startsWith('Sleep timer of group 10 ran out')), 'sleep timer');
+    await homebridge.set(on('Bulb 101'), true);
+    await sent(4);
+
+    assert.equal(server.requestsTo('mode/roomModeStart')[3].body?.brightness, 70);
+    assert.equal(server.getBulb('101')?.modeId, deviceModes.on);
+  });
+
+  it('is not restarted by Adaptive Lighting steps', async () => {
+    await launch({ duration: 1, onChange: 'restart' });
+    const started = () => homebridge.logged('info').filter(message => message.startsWith('Sleep timer of group 10 turns it off')).length;
+    await homebridge.set(on('Bulb 101'), true);
+    await sent();
+
+    const colorTemperature = homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.ColorTemperature);
+    const controller = homebridge.platform!.adaptiveLightingControllers.get(homebridge.accessory('Bulb 101')!.UUID);
+    await homebridge.set(colorTemperature, 300, { controller });
+    await sent(2);
+
+    assert.equal(started(), 1);
+    assert.ok(homebridge.platform!.sleepTimers.has('10'));
+  });
+
+  it('starts with its switch and goes on after a restart', async () => {
+    server.updateBulb('101', { modeId: deviceModes.on });
+    server.updateBulb('102', { modeId: deviceModes.on });
+    await launch({ switches: true });
+    const setDuration = homebridge.characteristic('Bulb 101', homebridge.hap.Service.Switch, homebridge.hap.Characteristic.SetDuration, 'sleep-timer');
+
+    await homebridge.set(setDuration, 1);
+    await homebridge.set(timerSwitch('Bulb 101'), true);
+    assert.equal(timerSwitch('Room 10').value, true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const stored = JSON.parse(await fs.readFile(path.join(homebridge.storagePath, SLEEP_TIMERS_FILE_NAME), 'utf8'));
+    assert.deepEqual(Object.keys(stored), ['10']);
+
+    homebridge.restart();
+    await homebridge.waitFor(isOff, 'sleep timer after restart');
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 1);
+  });
+
+  it('is not started with its switch while the cloud is unreachable', async () => {
+    await launch({ switches: true });
+
+    server.fail('mode/roomModeStart', { drop: true });
+    await homebridge.set(on('Bulb 101'), true);
+    await homebridge.waitFor(() => homebridge.logged('warn').some(message => message.startsWith('TuoLife cloud is unreachable')), 'outage');
+    await assert.rejects(homebridge.set(timerSwitch('Bulb 101'), true));
+
+    assert.equal(homebridge.platform!.sleepTimers.has('10'), false);
+  });
+
+  it('is cancelled when a sync shows the light was turned off elsewhere', async t => {
+    mockIntervals(t);
+    server.updateBulb('101', { modeId: deviceModes.on });
+    await launch({ switches: true });
+    await homebridge.set(timerSwitch('Bulb 101'), true);
+
+    server.updateBulb('101', { modeId: deviceModes.off });
+    t.mock.timers.tick(DEFAULT_SYNC_INTERVAL * 1000);
+    await homebridge.waitFor(() => timerSwitch('Bulb 101').value === false, 'sync');
+
+    assert.ok(homebridge.logged('info').some(message => message === 'Cancelled sleep timer of group 10, the light was turned off elsewhere'));
+  });
+});
@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FakeHomebridge } from './harness.js';
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { deviceModes } from '../src/types.js';
+
+describe('TuoLifeBulbAccessory', () => {
+  let server: TuoLifeMockServer;
+  let homebridge: FakeHomebridge;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102'])]);
+    await server.start();
+    homebridge = await FakeHomebridge.create();
+  });
+
+  afterEach(async () => {
+    await homebridge.cleanup();
+    await server.stop();
+  });
+
+  const launch = async (config: Record<string, unknown> = {}) => {
+    homebridge.launch(server.platformConfig(config));
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'discovery');
+  };
+
+  const on = (name: string) => homebridge.characteristic(name, homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.On);
+  const brightness = (name: string) => homebridge.characteristic(name, homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Brightness);
+  // HomeKit writes are done once the update is queued, the request follows
+  const sent = (count = 1) => homebridge.waitFor(() => server.requestsTo('mode/roomModeStart').length >= count, 'update');
+
+  it('turns the group of the bulb on and shows it on every light of the group', async () => {
+    await launch();
+
+    await homebridge.set(on('Bulb 101'), true);
+    await sent();
+
+    const [request] = server.requestsTo('mode/roomModeStart');
+    assert.equal(request.body?.groupId, '10');
+    assert.equal(request.body?.modeId, deviceModes.on);
+    assert.equal(server.getBulb('102')?.modeId, deviceModes.on);
+    assert.equal(on('Bulb 102').value, true);
+    assert.equal(on('Room 10').value, true);
+  });
+
+  it('turns the bulb off and keeps its brightness for the next time', async () => {
+    server.updateBulb('101', { modeId: deviceModes.on, brightness: 70 });
+    await launch();
+
+    await homebridge.set(on('Bulb 101'), false);
+    await sent();
+
+    const [request] = server.requestsTo('mode/roomModeStart');
+    assert.equal(request.body?.modeId, deviceModes.off);
+    assert.equal(brightness('Bulb 101').value, 70);
+  });
+
+  it('sends a new brightness with the bulb turned on', async () => {
+    await launch();
+
+    await homebridge.set(brightness('Bulb 101'), 30);
+    await sent();
+
+    const [request] = server.requestsTo('mode/roomModeStart');
+    assert.equal(request.body?.brightness, 30);
+    assert.equal(request.body?.modeId, deviceModes.on);
+    assert.equal(server.getBulb('101')?.brightness, 30);
+  });
+
+  it('combines On and Brightness set back to back into one request', async () => {
+    await launch({ commandDebounce: 50 });
+
+    await Promise.all([homebridge.set(on('Bulb 101'), true), homebridge.set(brightness('Bulb 101'), 40)]);
+    await sent();
+
+    const requests = server.requestsTo('mode/roomModeStart');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].body?.brightness, 40);
+  });
+
+  it('sends hue and saturation written in one request as one color', async () => {
+    await launch();
+    const color = (name: string, hue: number, saturation: number) => Promise.all([
+      homebridge.set(homebridge.characteristic(name, homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Hue), hue),
+      homebridge.set(homebridge.characteristic(name, homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Saturation), saturation),
+    ]);
+
+    await color('Bulb 101', 120, 100);
+    await sent();
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 1);
+    assert.equal(server.getBulb('101')?.red, 0);
+    assert.equal(server.getBulb('101')?.green, 100);
+
+    await color('Room 10', 240, 100);
+    await homebridge.waitFor(() => server.getBulb('101')?.blue === 100, 'room color');
+    assert.equal(server.getBulb('101')?.green, 0);
+  });
+
+  it('ends Adaptive Lighting on the bulbs of a room whose color is set by hand', async t => {
+    await launch();
+    const disabled = homebridge.platform!.getBulbHandlers().map(bulb => t.mock.method(bulb, 'disableAdaptiveLighting'));
+
+    await homebridge.set(homebridge.characteristic('Room 10', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Hue), 240);
+
+    assert.deepEqual(disabled.map(method => method.mock.callCount()), [1, 1]);
+  });
+
+  it('removes every mode switch once they are turned off in config', async () => {
+    await launch();
+    const modeSwitches = () => homebridge.accessory('Bulb 101')!.services.filter(service => service.subtype?.startsWith('mode-'));
+    assert.ok(modeSwitches().length > 1);
+
+    homebridge.restart(server.platformConfig({ devices: [{ bulbId: '101', modeSwitches: false }] }));
+    await homebridge.waitFor(() => homebridge.logged('debug').some(message => message.startsWith('Removing mode switch')), 'configure');
+
+    assert.deepEqual(modeSwitches().map(service => service.subtype), []);
+  });
+
+  it('keeps a bulb that is off turned off through Adaptive Lighting steps', async () => {
+    await launch();
+    const colorTemperature = homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.ColorTemperature);
+    const controller = homebridge.platform!.adaptiveLightingControllers.get(homebridge.accessory('Bulb 101')!.UUID);
+
+    await homebridge.set(colorTemperature, 400, { controller });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 0);
+    assert.equal(on('Bulb 101').value, false);
+    assert.equal(colorTemperature.value, 400);
+    assert.equal(server.getBulb('101')?.modeId, deviceModes.off);
+  });
+
+  it('rolls back after the write when the server refuses an update and clears the failure again', async () => {
+    await launch();
+
+    server.fail('mode/roomModeStart', { status: 400 });
+    await homebridge.set(on('Bulb 101'), true);
+    await homebridge.waitFor(() => homebridge.logged('error').some(message => message.startsWith('Error sending setOn to server')), 'failure');
+
+    assert.equal(on('Bulb 101').value, false);
+    assert.equal(on('Bulb 101').statusCode, homebridge.hap.HAPStatus.SUCCESS);
+    assert.equal(server.getBulb('101')?.modeId, deviceModes.off);
+  });
+
+  it('rejects changes without a request while the cloud is unreachable', async () => {
+    await launch();
+
+    server.fail('mode/roomModeStart', { drop: true });
+    await homebridge.set(on('Bulb 101'), true);
+    await homebridge.waitFor(() => homebridge.logged('warn').some(message => message.startsWith('TuoLife cloud is unreachable')), 'outage');
+    await assert.rejects(homebridge.set(brightness('Bulb 101'), 20));
+
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 1);
+  });
+
+  it('answers HomeKit before an update the server does not answer in time gives up', async () => {
+    await launch({ requestTimeout: 0.1 });
+
+    server.delay('mode/roomModeStart', 500);
+    await homebridge.set(on('Bulb 101'), true);
+    assert.equal(on('Bulb 101').value, true);
+
+    await homebridge.waitFor(() => homebridge.logged('error').some(message => message.includes('timed out after 100 ms')), 'timeout');
+    assert.equal(on('Bulb 101').value, false);
+  });
+});
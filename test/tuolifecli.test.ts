@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { runCli } from '../src/tuolifecli.js';
+import { deviceModes } from '../src/types.js';
+
+describe('tuolife CLI', () => {
+  let server: TuoLifeMockServer;
+  let directory: string;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102']), createRoom('20', ['201'])]);
+    await server.start();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tuolife-cli-'));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  // Run a command against the mock server, returns the exit code and what was printed
+  const run = async (...args: string[]) => {
+    const output = { log: [] as string[], error: [] as string[] };
+    const code = await runCli([...args, '--base-url', server.baseUrl], {
+      log: message => output.log.push(message),
+      error: message => output.error.push(message),
+    });
+    return { code, log: output.log.join('\n'), error: output.error.join('\n') };
+  };
+
+  const writeConfig = async (platform: Record<string, unknown>) => {
+    const file = path.join(directory, 'config.json');
+    await fs.writeFile(file, JSON.stringify({ bridge: { name: 'Homebridge' }, platforms: [{ platform: 'HomebridgeTuoLife', ...platform }] }));
+    return file;
+  };
+
+  it('lists the bulbs as a table', async () => {
+    const { code, log } = await run('bulbs', '--api-key', server.token);
+
+    assert.equal(code, 0);
+    const lines = log.split('\n');
+    assert.match(lines[0], /^ID\s+NAME\s+ROOM\s+MODE/);
+    assert.equal(lines.length, 4);
+    assert.match(lines[3], /^201\s+Bulb 201\s+20\s+off\s+50/);
+  });
+
+  it('prints the rooms as JSON', async () => {
+    const { code, log } = await run('rooms', '--api-key', server.token, '--json');
+
+    assert.equal(code, 0);
+    assert.deepEqual(JSON.parse(log).map((room: { id: string }) => room.id), ['10', '20']);
+  });
+
+  it('shows the full state of a bulb with the login from a Homebridge config', async () => {
+    const config = await writeConfig({ username: server.username, password: server.password });
+
+    const { code, log } = await run('bulb', '102', '--config', config, '--json');
+
+    assert.equal(code, 0);
+    assert.deepEqual(JSON.parse(log), server.getBulb('102'));
+    assert.equal(server.requestsTo('user/login').length, 1);
+  });
+
+  it('changes a room starting from its current state', async () => {
+    server.updateBulb('101', { red: 20 });
+
+    const { code } = await run('set', '10', '--brightness', '30', '--white', '0', '--api-key', server.token);
+
+    assert.equal(code, 0);
+    assert.deepEqual(server.requestsTo('mode/roomModeStart')[0].body, {
+      groupId: '10', modeId: deviceModes.on, brightness: 30, red: 20, green: 0, blue: 0, violet: 0, whiteColor: 0,
+    });
+  });
+
+  it('rejects wrong arguments without a request', async () => {
+    const { code, error } = await run('set', '10', '--brightness', '120', '--api-key', server.token);
+
+    assert.equal(code, 2);
+    assert.match(error, /--brightness must be a whole number from 0 to 100/);
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('fails when the server refuses the request', async () => {
+    const { code, error } = await run('rooms', '--api-key', 'wrong');
+
+    assert.equal(code, 1);
+    assert.match(error, /rejected with status 401/);
+  });
+
+  it('reports the problems of a config', async () => {
+    const config = await writeConfig({ apiKey: 'key', devices: [{ bulbId: '101', colour: false }] });
+
+    const { code, log } = await run('validate', config);
+
+    assert.equal(code, 0);
+    assert.match(log, /^warning: .*colour/m);
+  });
+
+  it('fails the check of a config without an account', async () => {
+    const config = await writeConfig({ name: 'TuoLife' });
+
+    const { code, log } = await run('validate', config);
+
+    assert.equal(code, 1);
+    assert.match(log, /^error: No TuoLife username and password provided/m);
+    assert.match(log, /1 errors/);
+  });
+});
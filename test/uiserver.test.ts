@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { RequestError } from '@homebridge/plugin-ui-utils';
+
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { deviceModes } from '../src/types.js';
+import { registerUiRequests } from '../src/uiserver.js';
+
+describe('TuoLife settings page server', () => {
+  let server: TuoLifeMockServer;
+  const handlers: Map<string, (request: unknown) => unknown> = new Map();
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102']), createRoom('20', ['201'])]);
+    await server.start();
+    registerUiRequests({ onRequest: (path, handler) => handlers.set(path, handler) }, { flashDuration: 0 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  // Send a request the way the page does, with the account from the form
+  const request = (path: string, body: Record<string, unknown> = {}) =>
+    handlers.get(path)!({ username: server.username, password: server.password, apiBaseUrl: server.baseUrl, ...body }) as Promise<unknown>;
+
+  it('signs in and lists the rooms with their bulbs', async () => {
+    const rooms = await request('/rooms') as Array<{ groupId: string; bulbs: Array<{ bulbId: string; name: string }> }>;
+
+    assert.equal(server.requestsTo('user/login').length, 1);
+    assert.deepEqual(rooms.map(room => room.groupId), ['10', '20']);
+    assert.deepEqual(rooms[0].bulbs.map(bulb => [bulb.bulbId, bulb.name]), [['101', 'Bulb 101'], ['102', 'Bulb 102']]);
+  });
+
+  it('tells the user when the login is wrong', async () => {
+    await assert.rejects(request('/rooms', { password: 'wrong' }),
+      (error: RequestError) => error instanceof RequestError && /did not accept the login/.test(error.message));
+    await assert.rejects(request('/rooms', { username: '', password: '' }), /Enter the email address and password/);
+  });
+
+  it('flashes a room and restores the state it was in', async () => {
+    Object.assign(server.getRoom('10')!, { modeId: deviceModes.on, brightness: 30 });
+    server.updateBulb('101', { modeId: deviceModes.on, brightness: 30 });
+    server.updateBulb('102', { modeId: deviceModes.on, brightness: 30 });
+
+    await request('/flash', { groupId: '10' });
+
+    const modes = server.requestsTo('mode/roomModeStart').map(sent => [sent.body?.modeId, sent.body?.brightness]);
+    assert.deepEqual(modes, [
+      [deviceModes.on, 100], [deviceModes.off, 30], [deviceModes.on, 100], [deviceModes.off, 30], [deviceModes.on, 30],
+    ]);
+    assert.equal(server.getBulb('101')?.brightness, 30);
+  });
+
+  it('leaves a room off after flashing it', async () => {
+    await request('/flash', { groupId: '20' });
+
+    assert.equal(server.requestsTo('mode/roomModeStart').length, 4);
+    assert.equal(server.getBulb('201')?.modeId, deviceModes.off);
+    await assert.rejects(request('/flash', { groupId: '99' }), /No room 99/);
+  });
+});
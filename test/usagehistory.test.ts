@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { FakeHomebridge } from './harness.js';
+import { TuoLifeMockServer, createRoom } from './mockserver.js';
+import { USAGE_HISTORY_FILE_NAME } from '../src/settings.js';
+import { deviceModes } from '../src/types.js';
+import { TuoLifeUsageHistory } from '../src/usagehistory.js';
+
+const HOUR = 3600000;
+
+describe('TuoLifeUsageHistory', () => {
+  let directory: string;
+  let history: TuoLifeUsageHistory;
+  const messages: string[] = [];
+  const log = Object.assign((...args: unknown[]) => messages.push(args.join(' ')), {
+    prefix: 'test', info: () => {}, success: () => {}, debug: () => {}, log: () => {},
+    warn: (...args: unknown[]) => messages.push(args.join(' ')),
+    error: (...args: unknown[]) => messages.push(args.join(' ')),
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tuolife-usage-'));
+    history = new TuoLifeUsageHistory(path.join(directory, USAGE_HISTORY_FILE_NAME), {
+      retention: 48 * HOUR,
+      getWattage: kind => kind === 'bulb' ? 10 : 20,
+      log,
+    });
+  });
+
+  afterEach(async () => {
+    history.flush();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('sums up on-time, brightness, modes and energy between transitions', () => {
+    const start = Date.now() - 4 * HOUR;
+    history.record('bulb', '101', { modeId: deviceModes.on, brightness: 100, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 }, start);
+    history.record('bulb', '101', { modeId: 'active5', brightness: 50, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 }, start + HOUR);
+    history.record('bulb', '101', { modeId: deviceModes.off, brightness: 50, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 }, start + 3 * HOUR);
+
+    const stats = history.getStats('bulb', '101', start);
+
+    assert.equal(stats.onTime, 3 * 3600);
+    assert.equal(stats.averageBrightness, 67);
+    assert.deepEqual(stats.modes, { [deviceModes.on]: 3600, active5: 2 * 3600 });
+    // 10 W for an hour and 5 W for two hours
+    assert.equal(stats.energy, 20);
+    assert.equal(history.getCurrentWattage('bulb', '101'), 0);
+  });
+
+  it('only records changes and keeps the state at the start of the retention', async () => {
+    const state = { modeId: deviceModes.on, brightness: 80, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 };
+    assert.equal(history.record('room', '10', state, Date.now() - 72 * HOUR), true);
+    assert.equal(history.record('room', '10', { ...state, red: 20 }, Date.now() - 60 * HOUR), false);
+
+    const exported = history.export();
+
+    assert.equal(exported.rooms[0].transitions.length, 1);
+    assert.ok(exported.rooms[0].transitions[0].time >= Date.now() - 48 * HOUR - 1000);
+    assert.equal(exported.rooms[0].wattage, 20);
+    assert.ok(exported.rooms[0].days.length >= 2);
+    assert.match(exported.rooms[0].days[0].date, /^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('keeps what was recorded before and after a restart', async () => {
+    const state = { modeId: deviceModes.on, brightness: 40, red: 0, green: 0, blue: 0, violet: 0, whiteColor: 100 };
+    history.record('bulb', '101', state, Date.now() - HOUR);
+    history.flush();
+
+    const restarted = new TuoLifeUsageHistory(path.join(directory, USAGE_HISTORY_FILE_NAME), {
+      retention: 48 * HOUR, getWattage: () => 10, log,
+    });
+    restarted.record('bulb', '101', { ...state, modeId: deviceModes.off }, Date.now());
+    await restarted.load();
+
+    assert.deepEqual(restarted.export().bulbs[0].transitions.map(transition => transition.modeId), [deviceModes.on, deviceModes.off]);
+    assert.equal(restarted.getToday('bulb', '101').energy > 0, true);
+    restarted.flush();
+  });
+});
+
+describe('Usage characteristics', () => {
+  let server: TuoLifeMockServer;
+  let homebridge: FakeHomebridge;
+
+  beforeEach(async () => {
+    server = new TuoLifeMockServer([createRoom('10', ['101', '102'])]);
+    await server.start();
+    homebridge = await FakeHomebridge.create();
+  });
+
+  afterEach(async () => {
+    await homebridge.cleanup();
+    await server.stop();
+  });
+
+  it('shows the estimated power of a light in HomeKit and saves the history on shutdown', async () => {
+    const platform = homebridge.launch(server.platformConfig({ usageHistory: { enabled: true, wattage: [{ generation: 'GU10', watts: 6 }] } }));
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'discovery');
+    const characteristics = platform.getUsageCharacteristics()!;
+
+    await homebridge.set(homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, homebridge.hap.Characteristic.Brightness), 50);
+
+    assert.equal(homebridge.characteristic('Bulb 101', homebridge.hap.Service.Lightbulb, characteristics.currentConsumption).value, 3);
+    assert.equal(homebridge.characteristic('Room 10', homebridge.hap.Service.Lightbulb, characteristics.currentConsumption).value, 6);
+    homebridge.shutdown();
+    const stored = JSON.parse(await fs.readFile(path.join(homebridge.storagePath, USAGE_HISTORY_FILE_NAME), 'utf8'));
+    assert.deepEqual(Object.keys(stored.bulb).sort(), ['101', '102']);
+  });
+
+  it('shows the energy of today apart from the cumulative Eve Total Consumption', async () => {
+    const config = server.platformConfig({ usageHistory: { enabled: true } });
+    homebridge.launch(config);
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'discovery');
+    // the characteristic earlier versions showed today's energy with
+    const eveTotalConsumption = 'E863F10C-079E-48FF-8F27-9C2605A29F52';
+    homebridge.accessory('Bulb 101')?.getService(homebridge.hap.Service.Lightbulb)?.addCharacteristic(new homebridge.hap.Characteristic(
+      'Total Consumption', eveTotalConsumption, { format: homebridge.hap.Formats.FLOAT, perms: [homebridge.hap.Perms.PAIRED_READ] },
+    ));
+
+    const platform = homebridge.restart();
+    const service = homebridge.accessory('Bulb 101')?.getService(homebridge.hap.Service.Lightbulb);
+    await homebridge.waitFor(() => service?.characteristics.every(characteristic => characteristic.UUID !== eveTotalConsumption) === true, 'cleanup');
+
+    const energyToday = service?.characteristics.find(characteristic => characteristic.UUID === platform.getUsageCharacteristics()!.todayConsumption.UUID);
+    assert.equal(energyToday?.displayName, 'Energy Today');
+  });
+
+  it('adds no usage characteristics while the history is turned off', async () => {
+    const platform = homebridge.launch(server.platformConfig());
+    await homebridge.waitFor(() => homebridge.accessories.size === 3, 'discovery');
+
+    assert.equal(platform.getUsageCharacteristics(), undefined);
+    const service = homebridge.accessory('Bulb 101')?.getService(homebridge.hap.Service.Lightbulb);
+    assert.ok(service?.characteristics.every(characteristic => !['Consumption', 'Energy Today', 'On Time Today'].includes(characteristic.displayName)));
+  });
+});